@@ -0,0 +1,161 @@
+import type { StorageAdapter } from '../persistent-atom'
+import { withBackups } from '../backups'
+import fs from 'fs/promises'
+import path from 'node:path'
+import { watchFile, withFileLock, writeFileAtomic } from './file-utils'
+import type { FileAdapterOptions } from './file-adapter'
+
+type Document = Record<string, string>
+
+async function copyBackup(filePath: string) {
+  const backupPath = `${filePath}.${Date.now()}.bak`
+  await fs.copyFile(filePath, backupPath)
+  return backupPath
+}
+
+async function readDocument(filePath: string): Promise<Document> {
+  const buf = await fs.readFile(filePath).catch(() => undefined)
+  if (!buf) return {}
+
+  const parsed = JSON.parse(buf.toString()) as unknown
+  if (parsed == null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Document ${filePath} does not contain a JSON object`)
+  }
+
+  // Entries are stored as the serialized strings handed to setItem, but
+  // hand-edited entries may contain plain JSON values.
+  const doc: Document = {}
+  for (const [key, value] of Object.entries(parsed)) {
+    doc[key] = typeof value === 'string' ? value : JSON.stringify(value)
+  }
+  return doc
+}
+
+/**
+ * Creates a storage adapter that keeps many keys in a single JSON file.
+ * Each key holds the serialized value (including its version envelope) of one atom.
+ *
+ * Reads are served from an in-memory cache after the first load. Writes re-read
+ * the file under the file lock, so keys written by other processes are kept.
+ */
+export function createDocumentFileAdapter(
+  filePath: string,
+  options: FileAdapterOptions = {}
+): StorageAdapter {
+  const { logger = console } = options
+  let cache: Promise<Document> | undefined
+  const listeners = new Map<string, Set<(value: string | undefined) => void>>()
+  let stopWatching: (() => void) | undefined
+  let pendingWrites = 0
+
+  const load = async () => {
+    cache ??= readDocument(filePath)
+    try {
+      return await cache
+    } catch (error) {
+      // Don't cache a failed read, so the next call tries again
+      cache = undefined
+      throw error
+    }
+  }
+
+  // Notify listeners of the keys whose value changed, except `except`
+  const notify = (previous: Document, next: Document, except?: string) => {
+    for (const [key, keyListeners] of listeners) {
+      if (key === except || next[key] === previous[key]) continue
+      keyListeners.forEach((listener) => listener(next[key]))
+    }
+  }
+
+  // Reload the document after another process changed it. Changes that
+  // arrive during a write are picked up by the write.
+  const reload = async () => {
+    if (pendingWrites > 0) return
+    const previous = cache ? await cache.catch((): Document => ({})) : {}
+    const next = await readDocument(filePath)
+    cache = Promise.resolve(next)
+    notify(previous, next)
+  }
+
+  const update = async (key: string, mutate: (doc: Document) => void) => {
+    pendingWrites++
+    try {
+      await withFileLock(
+        filePath,
+        async () => {
+          const previous = await cache?.catch(() => undefined)
+          let doc: Document
+          try {
+            doc = await readDocument(filePath)
+          } catch (error) {
+            // Keep the unreadable file around before replacing it
+            logger.error(
+              `[persistentAtom] Document ${filePath} is corrupted, rewriting it:`,
+              error
+            )
+            const backupPath = await copyBackup(filePath)
+            logger.log(`[persistentAtom] Created backup at: ${backupPath}`)
+            doc = { ...(await load().catch(() => ({}))) }
+          }
+          mutate(doc)
+          await writeFileAtomic(filePath, JSON.stringify(doc, null, 2))
+          cache = Promise.resolve(doc)
+          // Other keys may have been changed elsewhere since we last read them
+          if (previous) notify(previous, doc, key)
+        },
+        options
+      )
+    } finally {
+      pendingWrites--
+    }
+  }
+
+  return withBackups({
+    name: `document:${path.basename(filePath)}`,
+    filePath,
+    async getItem(key) {
+      const doc = await load()
+      return doc[key]
+    },
+    async setItem(key, value) {
+      await update(key, (doc) => {
+        doc[key] = value
+      })
+    },
+    async removeItem(key) {
+      await update(key, (doc) => {
+        delete doc[key]
+      })
+    },
+    async keys() {
+      return Object.keys(await load())
+    },
+    subscribe(key, callback) {
+      const keyListeners = listeners.get(key) ?? new Set()
+      keyListeners.add(callback)
+      listeners.set(key, keyListeners)
+
+      stopWatching ??= watchFile(
+        filePath,
+        () => {
+          reload().catch((error) => {
+            logger.error(
+              `[persistentAtom] Failed to reload document ${filePath}:`,
+              error
+            )
+          })
+        },
+        { logger }
+      )
+
+      return () => {
+        keyListeners.delete(callback)
+        if (keyListeners.size === 0) listeners.delete(key)
+        if (listeners.size === 0 && stopWatching) {
+          stopWatching()
+          stopWatching = undefined
+        }
+      }
+    },
+  })
+}
@@ -1,25 +1,152 @@
 import { StorageAdapter } from '~/persistent-atom'
+import type { BackupInfo } from '~/backups'
+import type { Logger } from '~/events'
 import fs from 'fs/promises'
 import path from 'node:path'
+import { watchFile, withFileLock, writeFileAtomic } from './file-utils'
+import type { FileLockOptions } from './file-utils'
 
+export type FileAdapterOptions = FileLockOptions & {
+  /** Receives the log output of the adapter. Defaults to `console`. */
+  logger?: Logger
+}
+
+// Backups live next to the file, as `${filePath}.${createdAt}.bak`
+const backupPath = (filePath: string, createdAt: number) =>
+  `${filePath}.${createdAt}.bak`
+
+// Moves a corrupted file aside, so the next start doesn't fail on it again.
+// The caller reports the backup.
 async function fileBackup(filePath: string) {
-  const backupPath = `${filePath}.${Date.now()}.bak`
-  console.log(`[persistentAtom] Created backup at: ${backupPath}`)
-  await fs.rename(filePath, backupPath)
+  await fs.rename(filePath, backupPath(filePath, Date.now()))
+}
+
+async function listFileBackups(
+  filePath: string,
+  key: string
+): Promise<BackupInfo[]> {
+  const dir = path.dirname(filePath)
+  const prefix = `${path.basename(filePath)}.`
+  const files = await fs.readdir(dir).catch((): string[] => [])
+  return files
+    .flatMap((file) => {
+      if (!file.startsWith(prefix) || !file.endsWith('.bak')) return []
+      const createdAt = file.slice(prefix.length, -'.bak'.length)
+      if (!/^\d+$/.test(createdAt)) return []
+      return [{ id: path.join(dir, file), key, createdAt: Number(createdAt) }]
+    })
+    .sort((a, b) => b.createdAt - a.createdAt)
 }
 
-export function createFileAdapter(filePath: string): StorageAdapter {
+export function createFileAdapter(
+  filePath: string,
+  options: FileAdapterOptions = {}
+): StorageAdapter {
+  const { logger = console } = options
+  const listeners = new Set<(value: string | undefined) => void>()
+  let stopWatching: (() => void) | undefined
+  let pendingWrites = 0
+  // The content we last read or wrote, used to ignore our own writes
+  let lastKnown: string | undefined
+
+  const read = async () => {
+    const buf = await fs.readFile(filePath).catch(() => undefined)
+    return buf ? buf.toString() : undefined
+  }
+
+  const notify = async () => {
+    if (pendingWrites > 0) return
+    const value = await read()
+    if (value === lastKnown) return
+    lastKnown = value
+    listeners.forEach((listener) => listener(value))
+  }
+
   return {
     name: `file:${path.basename(filePath)}`,
     filePath: filePath,
     async getItem() {
-      const buf = await fs.readFile(filePath).catch(() => undefined)
-      return buf ? buf.toString() : undefined
+      lastKnown = await read()
+      return lastKnown
     },
     async setItem(_, value) {
-      await fs.mkdir(path.dirname(filePath), { recursive: true })
-      await fs.writeFile(filePath, value)
+      pendingWrites++
+      try {
+        await withFileLock(
+          filePath,
+          () => writeFileAtomic(filePath, value),
+          options
+        )
+        lastKnown = value
+      } finally {
+        pendingWrites--
+      }
+    },
+    async removeItem() {
+      pendingWrites++
+      try {
+        await withFileLock(
+          filePath,
+          () => fs.rm(filePath, { force: true }),
+          options
+        )
+        lastKnown = undefined
+      } finally {
+        pendingWrites--
+      }
     },
     createBackup: fileBackup,
+    async backup(key) {
+      const createdAt = Date.now()
+      const id = backupPath(filePath, createdAt)
+      try {
+        await withFileLock(filePath, () => fs.copyFile(filePath, id), options)
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+        throw error
+      }
+      return { id, key, createdAt }
+    },
+    listBackups: (key) => listFileBackups(filePath, key),
+    async restoreBackup(key, id) {
+      const backups = await listFileBackups(filePath, key)
+      if (!backups.some((backup) => backup.id === id)) {
+        throw new Error(`[persistentAtom] No backup "${id}" of ${filePath}.`)
+      }
+      // Written like an external change, so subscribed atoms pick it up
+      const content = await fs.readFile(id, 'utf8')
+      await withFileLock(
+        filePath,
+        () => writeFileAtomic(filePath, content),
+        options
+      )
+    },
+    async deleteBackup(key, id) {
+      const backups = await listFileBackups(filePath, key)
+      if (backups.some((backup) => backup.id === id)) await fs.rm(id)
+    },
+    subscribe(_, callback) {
+      listeners.add(callback)
+      stopWatching ??= watchFile(
+        filePath,
+        () => {
+          notify().catch((error) => {
+            logger.error(
+              `[persistentAtom] Failed to read external change to ${filePath}:`,
+              error
+            )
+          })
+        },
+        { logger }
+      )
+
+      return () => {
+        listeners.delete(callback)
+        if (listeners.size === 0 && stopWatching) {
+          stopWatching()
+          stopWatching = undefined
+        }
+      }
+    },
   }
 }
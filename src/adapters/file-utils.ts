@@ -0,0 +1,218 @@
+import fs from 'fs/promises'
+import { mkdirSync, watch } from 'fs'
+import type { FSWatcher } from 'fs'
+import path from 'node:path'
+import type { Logger } from '../events'
+
+export interface FileLockOptions {
+  /** How long to wait for a lock held by another writer. Defaults to 5000ms. */
+  lockTimeoutMs?: number
+  /** A lock file older than this is considered abandoned and is removed. Defaults to 10000ms. */
+  staleLockMs?: number
+  /** Delay between attempts to acquire a held lock. Defaults to 25ms. */
+  lockRetryMs?: number
+}
+
+// Writers in this process are queued per file, so the lock file only has to
+// arbitrate between processes.
+const localQueues = new Map<string, Promise<unknown>>()
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function isErrorCode(error: unknown, code: string) {
+  return (
+    error instanceof Error && (error as NodeJS.ErrnoException).code === code
+  )
+}
+
+// Identifies the holder of a lock: the process id and a random part
+const createToken = () =>
+  `${process.pid}:${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`
+
+// Breaks a lock that looks abandoned. The lock is first renamed away, which
+// only one process can do, and deleted only if it is still the stale lock
+// (with the same content) that we saw. Returns false if the lock is fresh.
+async function breakStaleLock(lockPath: string, staleLockMs: number) {
+  const stat = await fs.stat(lockPath).catch(() => undefined)
+  if (!stat) return true
+  if (Date.now() - stat.mtimeMs <= staleLockMs) return false
+
+  const owner = await fs.readFile(lockPath, 'utf8').catch(() => undefined)
+  const movedPath = `${lockPath}.${createToken()}.stale`
+  try {
+    await fs.rename(lockPath, movedPath)
+  } catch {
+    return true // Someone else moved or released it first
+  }
+  const moved = await fs.stat(movedPath).catch(() => undefined)
+  const movedOwner = await fs.readFile(movedPath, 'utf8').catch(() => undefined)
+  const isStale =
+    moved != null &&
+    movedOwner === owner &&
+    Date.now() - moved.mtimeMs > staleLockMs
+  if (!isStale) {
+    // We moved a lock that was just taken: put it back, unless a newer one exists
+    await fs.link(movedPath, lockPath).catch(() => undefined)
+  }
+  await fs.unlink(movedPath).catch(() => undefined)
+  return true
+}
+
+// Takes the lock and returns the token written into it
+async function acquireLock(
+  lockPath: string,
+  options: FileLockOptions
+): Promise<string> {
+  const {
+    lockTimeoutMs = 5000,
+    staleLockMs = 10000,
+    lockRetryMs = 25,
+  } = options
+  const startedAt = Date.now()
+  const token = createToken()
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx')
+      try {
+        await handle.writeFile(token)
+      } finally {
+        await handle.close()
+      }
+      return token
+    } catch (error) {
+      if (!isErrorCode(error, 'EEXIST')) throw error
+    }
+
+    // The lock is held: break it if its owner seems to have died
+    if (await breakStaleLock(lockPath, staleLockMs)) continue
+
+    if (Date.now() - startedAt > lockTimeoutMs) {
+      throw new Error(
+        `[persistentAtom] Timed out after ${lockTimeoutMs}ms waiting for lock: ${lockPath}`
+      )
+    }
+    await sleep(lockRetryMs)
+  }
+}
+
+// Deletes the lock, unless another process has taken it over
+async function releaseLock(lockPath: string, token: string) {
+  const owner = await fs.readFile(lockPath, 'utf8').catch(() => undefined)
+  if (owner === token) await fs.unlink(lockPath).catch(() => undefined)
+}
+
+/**
+ * Runs `fn` while holding an advisory lock on `filePath`.
+ * The lock is a `${filePath}.lock` file created exclusively, so cooperating
+ * processes writing the same file never interleave. Its mtime is refreshed
+ * while `fn` runs, so a slow write isn't mistaken for an abandoned lock.
+ */
+export async function withFileLock<R>(
+  filePath: string,
+  fn: () => Promise<R>,
+  options: FileLockOptions = {}
+): Promise<R> {
+  const previous = localQueues.get(filePath) ?? Promise.resolve()
+  const run = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const lockPath = `${filePath}.lock`
+      const { staleLockMs = 10000 } = options
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      const token = await acquireLock(lockPath, options)
+      const refresh = setInterval(() => {
+        const now = new Date()
+        fs.utimes(lockPath, now, now).catch(() => undefined)
+      }, staleLockMs / 3)
+      refresh.unref?.()
+      try {
+        return await fn()
+      } finally {
+        clearInterval(refresh)
+        await releaseLock(lockPath, token)
+      }
+    })
+
+  localQueues.set(filePath, run)
+  try {
+    return await run
+  } finally {
+    if (localQueues.get(filePath) === run) localQueues.delete(filePath)
+  }
+}
+
+/**
+ * Writes `data` to a temporary file next to `filePath`, fsyncs it and renames it
+ * over the target. Readers see either the old or the new content, never a
+ * partially written file.
+ */
+export async function writeFileAtomic(filePath: string, data: string) {
+  const dir = path.dirname(filePath)
+  const tmpPath = `${filePath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+
+  await fs.mkdir(dir, { recursive: true })
+  try {
+    const handle = await fs.open(tmpPath, 'w')
+    try {
+      await handle.writeFile(data)
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+    await fs.rename(tmpPath, filePath)
+  } catch (error) {
+    await fs.unlink(tmpPath).catch(() => undefined)
+    throw error
+  }
+
+  // Persist the rename itself. Not every platform can fsync a directory.
+  try {
+    const dirHandle = await fs.open(dir, 'r')
+    try {
+      await dirHandle.sync()
+    } finally {
+      await dirHandle.close()
+    }
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Calls `onChange` (debounced) whenever `filePath` is created, changed or replaced.
+ * The parent directory is watched because atomic writes replace the file.
+ * Returns a function that stops watching.
+ */
+export function watchFile(
+  filePath: string,
+  onChange: () => void,
+  {
+    debounceMs = 20,
+    logger = console,
+  }: { debounceMs?: number; logger?: Logger } = {}
+): () => void {
+  const dir = path.dirname(filePath)
+  const base = path.basename(filePath)
+  let timer: NodeJS.Timeout | undefined
+
+  mkdirSync(dir, { recursive: true })
+  // Not persistent, so watching doesn't keep the process alive
+  const watcher: FSWatcher = watch(
+    dir,
+    { persistent: false },
+    (_, filename) => {
+      if (filename != null && filename.toString() !== base) return
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(onChange, debounceMs)
+    }
+  )
+  watcher.on('error', (error) => {
+    logger.error(`[persistentAtom] Stopped watching ${filePath}:`, error)
+  })
+
+  return () => {
+    if (timer) clearTimeout(timer)
+    watcher.close()
+  }
+}
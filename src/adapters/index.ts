@@ -1,6 +1,32 @@
 export { createFileAdapter } from './file-adapter'
+export type { FileAdapterOptions } from './file-adapter'
 
-export { createLocalStorageAdapter } from './local-storage-adapter'
-export type { LocalStorageInterface } from './local-storage-adapter'
+export { createDocumentFileAdapter } from './document-file-adapter'
+
+export { createIndexedDBAdapter } from './indexeddb-adapter'
+export type {
+  IndexedDBAdapterOptions,
+  IndexedDBFactory,
+} from './indexeddb-adapter'
+
+export { createSQLiteAdapter } from './sqlite-adapter'
+export type {
+  SQLiteAdapterOptions,
+  SQLiteDatabase,
+  SQLiteStatement,
+} from './sqlite-adapter'
+
+export {
+  createLocalStorageAdapter,
+  createWebStorageAdapter,
+} from './local-storage-adapter'
+export type { LocalStorageInterface, WebStorage } from './local-storage-adapter'
+
+export {
+  withPrefix,
+  withFallback,
+  withMemoryCache,
+  withReadOnly,
+} from './middleware'
 
 export type { StorageAdapter } from '../persistent-atom'
@@ -0,0 +1,178 @@
+import type { Logger } from '../events'
+import type { StorageAdapter } from '../persistent-atom'
+import { withBackups } from '../backups'
+
+// Structural subsets of the IndexedDB API, so the adapter type-checks
+// without the DOM library and works with shims such as fake-indexeddb
+type Handler = ((...args: never[]) => unknown) | null
+
+type RequestLike<T> = {
+  readonly result: T
+  readonly error: Error | null
+  onsuccess: Handler
+  onerror: Handler
+}
+
+type OpenRequestLike = RequestLike<DatabaseLike> & {
+  onupgradeneeded: Handler
+  onblocked: Handler
+}
+
+type ObjectStoreLike = {
+  get(key: string): RequestLike<unknown>
+  put(value: string, key: string): RequestLike<unknown>
+  delete(key: string): RequestLike<unknown>
+  getAllKeys(): RequestLike<unknown[]>
+}
+
+type TransactionLike = {
+  readonly error: Error | null
+  objectStore(name: string): ObjectStoreLike
+  oncomplete: Handler
+  onerror: Handler
+  onabort: Handler
+}
+
+type DatabaseLike = {
+  readonly version: number
+  readonly objectStoreNames: { contains(name: string): boolean }
+  createObjectStore(name: string): unknown
+  transaction(
+    storeName: string,
+    mode: 'readonly' | 'readwrite'
+  ): TransactionLike
+  close(): void
+  onversionchange: Handler
+}
+
+/** The `indexedDB` global, or an implementation of it. */
+export interface IndexedDBFactory {
+  open(name: string, version?: number): OpenRequestLike
+}
+
+export type IndexedDBAdapterOptions = {
+  /** Defaults to `globalThis.indexedDB`. */
+  indexedDB?: IndexedDBFactory
+  /** Receives the log output of the adapter. Defaults to `console`. */
+  logger?: Logger
+}
+
+function openDatabase(
+  factory: IndexedDBFactory,
+  dbName: string,
+  storeName: string,
+  logger: Logger,
+  version?: number
+): Promise<DatabaseLike> {
+  return new Promise<DatabaseLike>((resolve, reject) => {
+    const request = factory.open(dbName, version)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.createObjectStore(storeName)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () =>
+      reject(
+        request.error ??
+          new Error(`Failed to open IndexedDB database "${dbName}"`)
+      )
+    request.onblocked = () => {
+      logger.warn(
+        `[persistentAtom] Upgrading IndexedDB database "${dbName}" is blocked by a connection in another tab.`
+      )
+    }
+  }).then((db) => {
+    if (db.objectStoreNames.contains(storeName)) return db
+    // The database exists without our store (e.g. it was created for another
+    // store name), so bump its version to create the store in an upgrade
+    const nextVersion = db.version + 1
+    db.close()
+    return openDatabase(factory, dbName, storeName, logger, nextVersion)
+  })
+}
+
+/**
+ * Creates a storage adapter backed by an IndexedDB object store.
+ *
+ * The database is opened on first use and created or upgraded as needed.
+ * When another tab upgrades the database, the connection is closed and
+ * reopened on the next call.
+ */
+export function createIndexedDBAdapter(
+  dbName: string,
+  storeName: string = 'zod-persist',
+  options: IndexedDBAdapterOptions = {}
+): StorageAdapter {
+  const factory =
+    options.indexedDB ??
+    (globalThis as { indexedDB?: IndexedDBFactory }).indexedDB
+  if (factory == null) {
+    throw new Error('Error: IndexedDB is not available in this environment')
+  }
+
+  let connection: Promise<DatabaseLike> | undefined
+
+  const getDatabase = () => {
+    connection ??= openDatabase(
+      factory,
+      dbName,
+      storeName,
+      options.logger ?? console
+    ).then(
+      (db) => {
+        // Let other tabs upgrade the database; we reconnect lazily
+        db.onversionchange = () => {
+          db.close()
+          connection = undefined
+        }
+        return db
+      },
+      (error) => {
+        // Don't keep a failed connection, so the next call tries again
+        connection = undefined
+        throw error
+      }
+    )
+    return connection
+  }
+
+  // Runs one request in its own transaction and resolves once the
+  // transaction has committed
+  const run = async <T>(
+    mode: 'readonly' | 'readwrite',
+    fn: (store: ObjectStoreLike) => RequestLike<T>
+  ): Promise<T> => {
+    const db = await getDatabase()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = fn(transaction.objectStore(storeName))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = transaction.onabort = () =>
+        reject(
+          transaction.error ??
+            request.error ??
+            new Error(`IndexedDB transaction on "${storeName}" was aborted`)
+        )
+    })
+  }
+
+  return withBackups({
+    name: `indexedDB:${dbName}/${storeName}`,
+    async getItem(key) {
+      const value = await run('readonly', (store) => store.get(key))
+      return typeof value === 'string' ? value : undefined
+    },
+    async setItem(key, value) {
+      await run('readwrite', (store) => store.put(value, key))
+    },
+    async removeItem(key) {
+      await run('readwrite', (store) => store.delete(key))
+    },
+    async keys() {
+      const keys = await run('readonly', (store) => store.getAllKeys())
+      return keys.filter((key): key is string => typeof key === 'string')
+    },
+  })
+}
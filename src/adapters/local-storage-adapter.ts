@@ -1,8 +1,41 @@
 import type { StorageAdapter } from '../persistent-atom'
+import { withBackups } from '../backups'
 
 export interface LocalStorageInterface {
   getItem(key: string): Promise<string | undefined>
   setItem(key: string, value: string): Promise<void>
+  removeItem?(key: string): Promise<void>
+  /** Optional: notifies about changes made by other tabs, windows or processes. */
+  subscribe?(
+    key: string,
+    callback: (value: string | undefined) => void
+  ): () => void
+}
+
+/**
+ * The synchronous Web Storage API (`window.localStorage`, `window.sessionStorage`).
+ */
+export interface WebStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+type StorageEventLike = {
+  key: string | null
+  newValue: string | null
+  storageArea: unknown
+}
+
+type EventTargetLike = {
+  addEventListener(
+    type: string,
+    listener: (event: StorageEventLike) => void
+  ): void
+  removeEventListener(
+    type: string,
+    listener: (event: StorageEventLike) => void
+  ): void
 }
 
 export function createLocalStorageAdapter(
@@ -12,7 +45,7 @@ export function createLocalStorageAdapter(
   if (storage == null) {
     throw new Error('Error: storage is null/undefined')
   }
-  return {
+  return withBackups({
     name: adapterName,
     async getItem(key: string) {
       const value = await storage.getItem(key)
@@ -22,5 +55,51 @@ export function createLocalStorageAdapter(
     async setItem(key: string, value: string) {
       await storage.setItem(key, value)
     },
+    removeItem: storage.removeItem?.bind(storage),
+    subscribe: storage.subscribe?.bind(storage),
+  })
+}
+
+/**
+ * Creates a storage adapter for the browser's Web Storage (`localStorage` by default).
+ * Changes made in other tabs and windows are picked up through `storage` events.
+ */
+export function createWebStorageAdapter(
+  storageArea: WebStorage | undefined = (
+    globalThis as { localStorage?: WebStorage }
+  ).localStorage,
+  adapterName: string = 'localStorage'
+): StorageAdapter {
+  if (storageArea == null) {
+    throw new Error('Error: Web Storage is not available in this environment')
   }
+  return createLocalStorageAdapter(
+    {
+      getItem: (key) => Promise.resolve(storageArea.getItem(key) ?? undefined),
+      setItem: (key, value) => {
+        storageArea.setItem(key, value)
+        return Promise.resolve()
+      },
+      removeItem: (key) => {
+        storageArea.removeItem(key)
+        return Promise.resolve()
+      },
+      subscribe(key, callback) {
+        const target = globalThis as unknown as Partial<EventTargetLike>
+        if (!target.addEventListener || !target.removeEventListener) {
+          return () => {}
+        }
+        const onStorage = (event: StorageEventLike) => {
+          if (event.storageArea !== storageArea) return
+          // A null key means the whole storage was cleared
+          if (event.key === key || event.key === null) {
+            callback(event.newValue ?? undefined)
+          }
+        }
+        target.addEventListener('storage', onStorage)
+        return () => target.removeEventListener?.('storage', onStorage)
+      },
+    },
+    adapterName
+  )
 }
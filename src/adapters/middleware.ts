@@ -0,0 +1,243 @@
+import type { Logger } from '../events'
+import type { StorageAdapter } from '../persistent-atom'
+
+type Listener = (value: string | null | undefined) => void
+
+/**
+ * Stores every key under `${prefix}${key}`, e.g. to keep the data of each
+ * user or workspace apart in a shared storage.
+ */
+export function withPrefix(
+  storage: StorageAdapter,
+  prefix: string
+): StorageAdapter {
+  const prefixed = (key: string) => `${prefix}${key}`
+
+  return {
+    ...storage,
+    name: `prefixed(${storage.name}, ${prefix})`,
+    getItem: (key) => storage.getItem(prefixed(key)),
+    setItem: (key, value) => storage.setItem(prefixed(key), value),
+    removeItem: storage.removeItem
+      ? (key) => storage.removeItem!(prefixed(key))
+      : undefined,
+    keys: storage.keys
+      ? async () =>
+          (await storage.keys!())
+            .filter((key) => key.startsWith(prefix))
+            .map((key) => key.slice(prefix.length))
+      : undefined,
+    subscribe: storage.subscribe
+      ? (key, callback) => storage.subscribe!(prefixed(key), callback)
+      : undefined,
+    backup: storage.backup
+      ? async (key) => {
+          const backup = await storage.backup!(prefixed(key))
+          return backup && { ...backup, key }
+        }
+      : undefined,
+    listBackups: storage.listBackups
+      ? async (key) =>
+          (await storage.listBackups!(prefixed(key))).map((backup) => ({
+            ...backup,
+            key,
+          }))
+      : undefined,
+    restoreBackup: storage.restoreBackup
+      ? (key, id) => storage.restoreBackup!(prefixed(key), id)
+      : undefined,
+    deleteBackup: storage.deleteBackup
+      ? (key, id) => storage.deleteBackup!(prefixed(key), id)
+      : undefined,
+  }
+}
+
+/**
+ * Uses `secondary` when `primary` fails: reads fall back when `primary`
+ * throws or has no value, and writes when `primary` throws. Removing a key
+ * removes it from both. Backups use `primary`.
+ */
+export function withFallback(
+  primary: StorageAdapter,
+  secondary: StorageAdapter,
+  { logger = console }: { logger?: Logger } = {}
+): StorageAdapter {
+  const name = `fallback(${primary.name}, ${secondary.name})`
+
+  const warn = (operation: string, key: string, error: unknown) => {
+    logger.warn(
+      `[persistentAtom] ${operation} for key "${key}" failed on ${primary.name}, using ${secondary.name}:`,
+      error
+    )
+  }
+
+  return {
+    name,
+    // Backups are made in the primary storage, where the data normally is
+    filePath: primary.filePath,
+    createBackup: primary.createBackup,
+    backup: primary.backup,
+    listBackups: primary.listBackups,
+    restoreBackup: primary.restoreBackup,
+    deleteBackup: primary.deleteBackup,
+    async getItem(key) {
+      try {
+        const value = await primary.getItem(key)
+        if (value != null) return value
+      } catch (error) {
+        warn('Reading', key, error)
+      }
+      return secondary.getItem(key)
+    },
+    async setItem(key, value) {
+      try {
+        await primary.setItem(key, value)
+      } catch (error) {
+        warn('Writing', key, error)
+        await secondary.setItem(key, value)
+      }
+    },
+    removeItem:
+      primary.removeItem || secondary.removeItem
+        ? async (key) => {
+            const results = await Promise.allSettled([
+              primary.removeItem?.(key),
+              secondary.removeItem?.(key),
+            ])
+            const failed = results.filter(
+              (result) => result.status === 'rejected'
+            )
+            if (failed.length === results.length) throw failed[0].reason
+          }
+        : undefined,
+    // A primary that keeps a single value makes this storage keep one too
+    keys:
+      (primary.keys || secondary.keys) && !(primary.filePath && !primary.keys)
+        ? async () => {
+            const [primaryKeys = [], secondaryKeys = []] = await Promise.all([
+              primary.keys?.().catch(() => []),
+              secondary.keys?.(),
+            ])
+            return [...new Set([...primaryKeys, ...secondaryKeys])]
+          }
+        : undefined,
+    subscribe:
+      primary.subscribe || secondary.subscribe
+        ? (key, callback) => {
+            const unsubscribes = [primary, secondary].map((storage) =>
+              storage.subscribe?.(key, callback)
+            )
+            return () => unsubscribes.forEach((unsubscribe) => unsubscribe?.())
+          }
+        : undefined,
+  }
+}
+
+/**
+ * Keeps the values read from and written to `storage` in memory, so each
+ * key is read from `storage` only once. Changes made elsewhere update the
+ * cache only if `storage` reports them through `subscribe`.
+ */
+export function withMemoryCache(storage: StorageAdapter): StorageAdapter {
+  const cache = new Map<string, Promise<string | null | undefined>>()
+  const listeners = new Map<string, Set<Listener>>()
+  const unsubscribes = new Map<string, () => void>()
+
+  return {
+    ...storage,
+    name: `cached(${storage.name})`,
+    getItem(key) {
+      let value = cache.get(key)
+      if (!value) {
+        value = storage.getItem(key)
+        cache.set(key, value)
+        // Don't cache a failed read, so the next call tries again
+        value.catch(() => {
+          if (cache.get(key) === value) cache.delete(key)
+        })
+      }
+      return value
+    },
+    async setItem(key, value) {
+      try {
+        await storage.setItem(key, value)
+        cache.set(key, Promise.resolve(value))
+      } catch (error) {
+        cache.delete(key)
+        throw error
+      }
+    },
+    removeItem: storage.removeItem
+      ? async (key) => {
+          try {
+            await storage.removeItem!(key)
+            cache.set(key, Promise.resolve(undefined))
+          } catch (error) {
+            cache.delete(key)
+            throw error
+          }
+        }
+      : undefined,
+    createBackup: storage.createBackup
+      ? async (filePath) => {
+          // Moving the file aside changes every key stored in it
+          cache.clear()
+          await storage.createBackup!(filePath)
+        }
+      : undefined,
+    restoreBackup: storage.restoreBackup
+      ? async (key, id) => {
+          cache.delete(key)
+          await storage.restoreBackup!(key, id)
+        }
+      : undefined,
+    subscribe: storage.subscribe
+      ? (key, callback) => {
+          // One subscription per key keeps the cache up to date for all listeners
+          const keyListeners = listeners.get(key) ?? new Set()
+          keyListeners.add(callback)
+          listeners.set(key, keyListeners)
+          if (!unsubscribes.has(key)) {
+            unsubscribes.set(
+              key,
+              storage.subscribe!(key, (value) => {
+                cache.set(key, Promise.resolve(value))
+                listeners.get(key)?.forEach((listener) => listener(value))
+              })
+            )
+          }
+
+          return () => {
+            keyListeners.delete(callback)
+            if (keyListeners.size > 0) return
+            listeners.delete(key)
+            unsubscribes.get(key)?.()
+            unsubscribes.delete(key)
+            // Without a subscription, changes made elsewhere go unnoticed
+            cache.delete(key)
+          }
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Makes `storage` read-only: writes, deletes and backups reject, so the
+ * stored data is never changed, e.g. for fixtures or a shared configuration.
+ */
+export function withReadOnly(storage: StorageAdapter): StorageAdapter {
+  const name = `readonly(${storage.name})`
+  const reject = () =>
+    Promise.reject(new Error(`Error: storage ${name} is read-only`))
+
+  return {
+    ...storage,
+    name,
+    setItem: reject,
+    removeItem: reject,
+    createBackup: undefined,
+    backup: undefined,
+    restoreBackup: undefined,
+    deleteBackup: undefined,
+  }
+}
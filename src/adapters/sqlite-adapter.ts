@@ -0,0 +1,132 @@
+import type { StorageAdapter } from '../persistent-atom'
+import { withBackups } from '../backups'
+
+type SQLiteValue = string | number | null
+
+/**
+ * A prepared statement. Matches `node:sqlite`, `bun:sqlite` and `better-sqlite3`.
+ */
+export interface SQLiteStatement {
+  run(...params: SQLiteValue[]): unknown
+  get(...params: SQLiteValue[]): unknown
+  all(...params: SQLiteValue[]): unknown[]
+}
+
+/**
+ * A synchronous SQLite connection, e.g. `new DatabaseSync(path)` from
+ * `node:sqlite` or `new Database(path)` from `bun:sqlite`.
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown
+  prepare(sql: string): SQLiteStatement
+}
+
+export type SQLiteAdapterOptions = {
+  /** The table holding one row per key. Defaults to `zod_persist`. */
+  table?: string
+  /** Switch the database to write-ahead logging. Defaults to true. */
+  wal?: boolean
+}
+
+type PendingWrite = { value: string; version: number | null } | null
+
+// The envelope version of values written with a JSON codec, if there is one
+function readVersion(value: string): number | null {
+  if (!value.startsWith('{')) return null
+  try {
+    const parsed = JSON.parse(value) as { version?: unknown }
+    return typeof parsed.version === 'number' ? parsed.version : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Creates a storage adapter that keeps every key as a row of a SQLite table,
+ * together with its version and the time it was last updated.
+ *
+ * Writes made in the same tick (e.g. several atoms flushed together) are
+ * committed in one transaction.
+ */
+export function createSQLiteAdapter(
+  db: SQLiteDatabase,
+  { table = 'zod_persist', wal = true }: SQLiteAdapterOptions = {}
+): StorageAdapter {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Error: invalid SQLite table name "${table}"`)
+  }
+
+  if (wal) db.exec('PRAGMA journal_mode = WAL')
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      version INTEGER,
+      updated_at INTEGER NOT NULL
+    )`
+  )
+
+  const select = db.prepare(`SELECT value FROM ${table} WHERE key = ?`)
+  const selectKeys = db.prepare(`SELECT key FROM ${table} ORDER BY key`)
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (key, value, version, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET
+       value = excluded.value,
+       version = excluded.version,
+       updated_at = excluded.updated_at`
+  )
+  const remove = db.prepare(`DELETE FROM ${table} WHERE key = ?`)
+
+  const commit = (writes: Map<string, PendingWrite>) => {
+    db.exec('BEGIN IMMEDIATE')
+    try {
+      const now = Date.now()
+      for (const [key, write] of writes) {
+        if (write) upsert.run(key, write.value, write.version, now)
+        else remove.run(key)
+      }
+      db.exec('COMMIT')
+    } catch (error) {
+      db.exec('ROLLBACK')
+      throw error
+    }
+  }
+
+  // Writes queued in the current tick. The last write to a key wins.
+  let pending: Map<string, PendingWrite> | undefined
+  let committed = Promise.resolve()
+
+  const enqueue = (key: string, write: PendingWrite) => {
+    if (!pending) {
+      const writes = (pending = new Map<string, PendingWrite>())
+      committed = Promise.resolve().then(() => {
+        pending = undefined
+        commit(writes)
+      })
+    }
+    pending.set(key, write)
+    return committed
+  }
+
+  // Reads wait for queued writes, so they see them
+  const settled = () => committed.catch(() => {})
+
+  return withBackups({
+    name: `sqlite:${table}`,
+    async getItem(key) {
+      await settled()
+      const row = select.get(key) as { value?: unknown } | null | undefined
+      return typeof row?.value === 'string' ? row.value : undefined
+    },
+    setItem(key, value) {
+      return enqueue(key, { value, version: readVersion(value) })
+    },
+    removeItem(key) {
+      return enqueue(key, null)
+    },
+    async keys() {
+      await settled()
+      return (selectKeys.all() as { key: string }[]).map((row) => row.key)
+    },
+  })
+}
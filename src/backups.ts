@@ -0,0 +1,221 @@
+import type { StorageAdapter } from './persistent-atom'
+import { emit } from './events'
+import type { Logger } from './events'
+
+export type BackupInfo = {
+  /** Identifies the backup, e.g. the path of a backup file. */
+  id: string
+  /** The key whose value was backed up. */
+  key: string
+  /** When the backup was created, as returned by `Date.now()`. */
+  createdAt: number
+}
+
+export type BackupOptions = {
+  /** How many backups of a key are kept. Defaults to 5. */
+  maxCount?: number
+  /** Backups older than this are deleted when a new backup is created. */
+  maxAgeMs?: number
+  /**
+   * Back up the stored data before migrated data replaces it, so a bad
+   * migration can be rolled back with `restoreBackup`. Defaults to true.
+   */
+  beforeMigration?: boolean
+}
+
+/** A storage adapter that implements every backup method. */
+export type BackupStorageAdapter = StorageAdapter &
+  Required<
+    Pick<
+      StorageAdapter,
+      'backup' | 'listBackups' | 'restoreBackup' | 'deleteBackup'
+    >
+  >
+
+const hasBackups = (storage: StorageAdapter): storage is BackupStorageAdapter =>
+  !!(
+    storage.backup &&
+    storage.listBackups &&
+    storage.restoreBackup &&
+    storage.deleteBackup
+  )
+
+// Backups of `key` are stored under `${key}.bak.${createdAt}`, and listed in
+// an index stored under `${key}.bak`
+const indexKey = (key: string) => `${key}.bak`
+
+async function readIndex(
+  storage: StorageAdapter,
+  key: string
+): Promise<BackupInfo[]> {
+  const raw = await storage.getItem(indexKey(key))
+  if (raw == null) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed) ? (parsed as BackupInfo[]) : []
+  } catch {
+    return []
+  }
+}
+
+const writeIndex = (
+  storage: StorageAdapter,
+  key: string,
+  backups: BackupInfo[]
+) =>
+  backups.length === 0 && storage.removeItem
+    ? storage.removeItem(indexKey(key))
+    : storage.setItem(indexKey(key), JSON.stringify(backups))
+
+/**
+ * Adds backups to an adapter that stores many keys, e.g. a custom adapter.
+ * Each backup is a copy of the value kept under its own key, next to the
+ * original. Adapters that already implement backups are returned as they are.
+ *
+ * Built-in adapters support backups without it.
+ */
+export function withBackups(storage: StorageAdapter): BackupStorageAdapter {
+  if (hasBackups(storage)) return storage
+
+  return {
+    ...storage,
+    async backup(key) {
+      const raw = await storage.getItem(key)
+      if (raw == null) return undefined
+
+      const backups = await readIndex(storage, key)
+      const createdAt = Date.now()
+      let id = `${indexKey(key)}.${createdAt}`
+      // Several backups in the same millisecond get a suffix
+      for (let n = 1; backups.some((backup) => backup.id === id); n++) {
+        id = `${indexKey(key)}.${createdAt}-${n}`
+      }
+      const backup = { id, key, createdAt }
+
+      await storage.setItem(id, raw)
+      await writeIndex(storage, key, [backup, ...backups])
+      return backup
+    },
+    listBackups: (key) => readIndex(storage, key),
+    async restoreBackup(key, id) {
+      const backups = await readIndex(storage, key)
+      const raw = backups.some((backup) => backup.id === id)
+        ? await storage.getItem(id)
+        : undefined
+      if (raw == null) {
+        throw new Error(`[persistentAtom] No backup "${id}" of key "${key}".`)
+      }
+      await storage.setItem(key, raw)
+    },
+    async deleteBackup(key, id) {
+      const backups = await readIndex(storage, key)
+      await storage.removeItem?.(id)
+      await writeIndex(
+        storage,
+        key,
+        backups.filter((backup) => backup.id !== id)
+      )
+    },
+  }
+}
+
+// The backup methods to use for `storage`. Adapters with a `filePath` keep a
+// single value, so copies under other keys would overwrite it.
+function backupsFor(storage: StorageAdapter) {
+  if (hasBackups(storage)) return storage
+  return storage.filePath ? undefined : withBackups(storage)
+}
+
+/** Deletes the backups of `key` that exceed `maxCount` or are older than `maxAgeMs`. */
+export async function pruneBackups(
+  storage: BackupStorageAdapter,
+  key: string,
+  { maxCount = 5, maxAgeMs }: BackupOptions = {}
+) {
+  const backups = await storage.listBackups(key)
+  const now = Date.now()
+  const expired = [...backups]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .filter(
+      (backup, i) =>
+        i >= maxCount || (maxAgeMs != null && now - backup.createdAt > maxAgeMs)
+    )
+  for (const backup of expired) {
+    await storage.deleteBackup(key, backup.id)
+  }
+}
+
+type BackupHookOptions = {
+  logger?: Logger
+  onBackup?: (backup: BackupInfo) => void
+  retention?: BackupOptions
+}
+
+/**
+ * Creates a backup of corrupted data before it is replaced. Adapters with
+ * `createBackup` move their file aside; all others get a copy.
+ */
+export async function createStorageBackup(
+  storage: StorageAdapter,
+  key: string,
+  { logger = console, onBackup, retention }: BackupHookOptions = {}
+) {
+  const backups = backupsFor(storage)
+  try {
+    let backup: BackupInfo | undefined
+    if (storage.filePath && storage.createBackup) {
+      await storage.createBackup(storage.filePath)
+      const [latest] = (await backups?.listBackups(key)) ?? []
+      backup = latest ?? {
+        id: storage.filePath,
+        key,
+        createdAt: Date.now(),
+      }
+    } else if (backups) {
+      backup = await backups.backup(key)
+    } else {
+      // Optional warning if filePath is set but backup method is missing
+      logger.warn(
+        '[persistentAtom] Adapter defines filePath but does not provide createBackup functionality.'
+      )
+      return
+    }
+    if (!backup) return
+    logger.log(`[persistentAtom] Created backup at: ${backup.id}`)
+    emit(logger, onBackup, backup)
+    if (backups) await pruneBackups(backups, key, retention)
+  } catch (backupError) {
+    logger.error('[persistentAtom] Failed to create backup:', backupError)
+  }
+}
+
+/**
+ * Backs up the stored value of `key` before migrated data replaces it.
+ * Returns false if the backup failed.
+ */
+export async function createMigrationBackup(
+  storage: StorageAdapter,
+  key: string,
+  { logger = console, onBackup, retention }: BackupHookOptions = {}
+): Promise<boolean> {
+  if (retention?.beforeMigration === false) return true
+  const backups = backupsFor(storage)
+  if (!backups) return true
+
+  try {
+    const backup = await backups.backup(key)
+    if (!backup) return true
+    logger.log(
+      `[persistentAtom] Backed up key "${key}" before saving migrated data: ${backup.id}`
+    )
+    emit(logger, onBackup, backup)
+    await pruneBackups(backups, key, retention)
+    return true
+  } catch (error) {
+    logger.error(
+      `[persistentAtom] Failed to back up key "${key}" before saving migrated data:`,
+      error
+    )
+    return false
+  }
+}
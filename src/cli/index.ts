@@ -0,0 +1,345 @@
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { createFileAdapter } from '../adapters/file-adapter'
+import { jsonCodec } from '../codec'
+import { dataChecksum, encodeEnvelope } from '../envelope'
+import { schemaFingerprint } from '../fingerprint'
+import type { VersionedData } from '../envelope'
+import type { StorageAdapter } from '../persistent-atom'
+import {
+  diffLines,
+  formatIssues,
+  loadDefinitions,
+  migrateData,
+  pickDefinition,
+  readEnvelope,
+  validateData,
+} from './store'
+import type { AtomDefinition, Issue } from './store'
+
+/** Where the CLI writes its output. */
+export type CliOutput = {
+  log: (line: string) => void
+  error: (line: string) => void
+}
+
+const usage = `Usage: zod-persist <command> <file> [options]
+
+Inspects, validates and migrates the data stored by createFileAdapter.
+
+Commands:
+  inspect <file>           Show the stored version and data
+  validate <file>          Check the stored data against the schema
+  migrate <file>           Dry-run the migrations and show what changes
+  backups <file>           List the backups of the file
+  restore <file> [backup]  Restore a backup (the newest by default)
+
+Options:
+  -d, --definitions <module>  Module exporting the atom definitions
+                              (schema, version, migrations)
+  -a, --atom <name>           The definition to use, by export name or key
+      --write                 Save the migrated data (migrate)
+  -h, --help                  Show this help`
+
+type Context = {
+  file: string
+  storage: StorageAdapter
+  key: string
+  out: CliOutput
+}
+
+const json = (value: unknown) => JSON.stringify(value, null, 2) ?? 'undefined'
+
+const printIssues = (out: CliOutput, heading: string, issues: Issue[] = []) => {
+  out.error(heading)
+  formatIssues(issues).forEach((line) => out.error(`  ${line}`))
+}
+
+function describeVersion(version: number, current?: number) {
+  const stored = version === 0 ? '0 (no version envelope)' : String(version)
+  if (current == null) return stored
+  if (version < current)
+    return `${stored} (current: ${current}, needs migration)`
+  if (version > current)
+    return `${stored} (newer than the current version ${current})`
+  return `${stored} (current)`
+}
+
+// Checks the stored data against its version's schema and, for older data,
+// whether it migrates to data that matches the current schema
+async function reportValidation(
+  definition: AtomDefinition,
+  envelope: VersionedData<unknown>,
+  { storage, key, out }: Context
+): Promise<boolean> {
+  const { version: stored, data } = envelope
+  const { version = 1, schema, versionSchemas = {} } = definition
+
+  if (stored > version) {
+    out.error(
+      `✖ Stored data has version ${stored}, newer than the current version ${version}`
+    )
+    return false
+  }
+
+  const storedSchema = stored === version ? schema : versionSchemas[stored]
+  if (storedSchema) {
+    const result = validateData(storedSchema, data)
+    if (!result.success) {
+      printIssues(
+        out,
+        `✖ Stored data does not match the schema for version ${stored}:`,
+        result.issues
+      )
+      return false
+    }
+    out.log(`✔ Stored data matches the schema for version ${stored}`)
+  } else {
+    out.log(`No schema for version ${stored}, skipping the stored data check`)
+  }
+  if (stored === version) return true
+
+  const migrated = await migrateData(definition, data, stored, { key, storage })
+  if (!migrated.success) {
+    printIssues(out, `✖ ${migrated.message}`, migrated.issues)
+    return false
+  }
+  const result = schema && validateData(schema, migrated.data)
+  if (result && !result.success) {
+    printIssues(
+      out,
+      '✖ Migrated data does not match the schema:',
+      result.issues
+    )
+    return false
+  }
+  out.log(`✔ Migrates from version ${stored} to ${version}`)
+  return true
+}
+
+async function inspect(
+  ctx: Context,
+  envelope: VersionedData<unknown>,
+  definition?: AtomDefinition
+) {
+  const current = definition && (definition.version ?? 1)
+  ctx.out.log(`File:     ${ctx.file}`)
+  ctx.out.log(`Version:  ${describeVersion(envelope.version, current)}`)
+  if (envelope.updatedAt != null) {
+    ctx.out.log(`Updated:  ${new Date(envelope.updatedAt).toISOString()}`)
+  }
+  if (envelope.revision != null) {
+    ctx.out.log(`Revision: ${envelope.revision}`)
+  }
+  if (envelope.writer != null) ctx.out.log(`Writer:   ${envelope.writer}`)
+  if (envelope.checksum != null) {
+    const actual = dataChecksum(envelope.data)
+    ctx.out.log(
+      actual === envelope.checksum
+        ? `Checksum: ${envelope.checksum} (valid)`
+        : `Checksum: ${envelope.checksum} (does not match: expected ${envelope.checksum}, got ${actual})`
+    )
+  }
+  if (envelope.fingerprint != null) {
+    const schema = definition?.schema
+    const changed =
+      schema &&
+      envelope.version === current &&
+      schemaFingerprint(schema) !== envelope.fingerprint
+    ctx.out.log(
+      `Schema:   ${envelope.fingerprint}${changed ? ' (changed without a version bump)' : ''}`
+    )
+  }
+  ctx.out.log('Data:')
+  json(envelope.data)
+    .split('\n')
+    .forEach((line) => ctx.out.log(`  ${line}`))
+  if (!definition) return 0
+  ctx.out.log('')
+  await reportValidation(definition, envelope, ctx)
+  return 0
+}
+
+async function migrate(
+  ctx: Context,
+  envelope: VersionedData<unknown>,
+  definition: AtomDefinition,
+  write: boolean
+) {
+  const { storage, key, out } = ctx
+  const { version = 1, schema, codec = jsonCodec } = definition
+  if (envelope.version === version) {
+    out.log(`Stored data is already at version ${version}, nothing to migrate`)
+    return 0
+  }
+  if (envelope.version > version) {
+    out.error(
+      `✖ Stored data has version ${envelope.version}, newer than the current version ${version}`
+    )
+    return 1
+  }
+
+  const { version: stored, data: storedData } = envelope
+  const migrated = await migrateData(definition, storedData, stored, {
+    key,
+    storage,
+  })
+  if (!migrated.success) {
+    printIssues(out, `✖ ${migrated.message}`, migrated.issues)
+    return 1
+  }
+  let data = migrated.data
+  if (schema) {
+    const result = validateData(schema, data)
+    if (!result.success) {
+      printIssues(
+        out,
+        '✖ Migrated data does not match the schema:',
+        result.issues
+      )
+      return 1
+    }
+    data = result.data
+  }
+
+  out.log(`Migrating from version ${stored} to ${version}:`)
+  diffLines(storedData, data).forEach((line) => out.log(line))
+
+  if (!write) {
+    out.log('')
+    out.log('Dry run, nothing was written. Run with --write to save it.')
+    return 0
+  }
+  const backup = await storage.backup?.(key)
+  if (backup) out.log(`Backed up the stored data to ${backup.id}`)
+  await storage.setItem(
+    key,
+    await encodeEnvelope(codec, version, data, {
+      updatedAt: envelope.updatedAt,
+      fingerprint: schema && schemaFingerprint(schema),
+      checksum: envelope.checksum != null,
+      revision: envelope.revision != null ? envelope.revision + 1 : undefined,
+      writer: envelope.writer != null ? 'zod-persist-cli' : undefined,
+    })
+  )
+  out.log(`✔ Saved the migrated data to ${ctx.file}`)
+  return 0
+}
+
+async function listBackups({ storage, key, file, out }: Context) {
+  const backups = (await storage.listBackups?.(key)) ?? []
+  if (backups.length === 0) {
+    out.log(`No backups of ${file}`)
+    return 0
+  }
+  for (const { id, createdAt } of backups) {
+    out.log(`${new Date(createdAt).toISOString()}  ${id}`)
+  }
+  return 0
+}
+
+async function restore(ctx: Context, id?: string) {
+  const { storage, key, file, out } = ctx
+  const backups = (await storage.listBackups?.(key)) ?? []
+  const backup = id
+    ? backups.find((backup) => backup.id === path.resolve(id))
+    : backups[0]
+  if (!backup) {
+    out.error(
+      id ? `Error: no backup ${id} of ${file}` : `Error: no backups of ${file}`
+    )
+    return 1
+  }
+
+  // Keep the current data, in case the backup turns out to be worse
+  const current = await storage.backup?.(key)
+  if (current) out.log(`Backed up the current data to ${current.id}`)
+  await storage.restoreBackup?.(key, backup.id)
+  out.log(`✔ Restored ${backup.id}`)
+  return 0
+}
+
+/**
+ * Runs the CLI with the given arguments (without `node` and the script) and
+ * returns the exit code: 0 on success, 1 if a check or command failed and 2
+ * on invalid arguments.
+ */
+export async function run(
+  args: string[],
+  out: CliOutput = console
+): Promise<number> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        definitions: { type: 'string', short: 'd' },
+        atom: { type: 'string', short: 'a' },
+        write: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+  } catch (error) {
+    out.error(error instanceof Error ? error.message : String(error))
+    out.error(usage)
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  const [command, file, ...rest] = positionals
+  if (values.help) {
+    out.log(usage)
+    return 0
+  }
+  const commands = ['inspect', 'validate', 'migrate', 'backups', 'restore']
+  if (!command || !commands.includes(command) || !file) {
+    out.error(usage)
+    return 2
+  }
+  if (
+    (command === 'validate' || command === 'migrate') &&
+    !values.definitions
+  ) {
+    out.error(
+      `Error: ${command} needs the atom definitions, pass --definitions`
+    )
+    return 2
+  }
+
+  try {
+    const definition = values.definitions
+      ? pickDefinition(await loadDefinitions(values.definitions), values.atom)
+      : undefined
+    const filePath = path.resolve(file)
+    const ctx: Context = {
+      file: filePath,
+      storage: createFileAdapter(filePath),
+      key: definition?.key ?? path.basename(filePath),
+      out,
+    }
+
+    if (command === 'backups') return await listBackups(ctx)
+    if (command === 'restore') return await restore(ctx, rest[0])
+
+    // inspect shows data that doesn't match its checksum, and the mismatch
+    const envelope = await readEnvelope(
+      ctx.storage,
+      ctx.key,
+      definition?.codec,
+      { verifyChecksum: command !== 'inspect' }
+    )
+    if (!envelope) {
+      out.error(`Error: ${filePath} does not exist or is empty`)
+      return 1
+    }
+    if (command === 'inspect') return await inspect(ctx, envelope, definition)
+    if (command === 'validate') {
+      return (await reportValidation(definition!, envelope, ctx)) ? 0 : 1
+    }
+    return await migrate(ctx, envelope, definition!, values.write ?? false)
+  } catch (error) {
+    out.error(error instanceof Error ? error.message : String(error))
+    return 1
+  }
+}
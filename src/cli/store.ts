@@ -0,0 +1,236 @@
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { jsonCodec } from '../codec'
+import type { Codec } from '../codec'
+import { decodeEnvelope, migrate } from '../envelope'
+import type { VersionedData } from '../envelope'
+import { silentLogger } from '../events'
+import type { Migration, Schema, StorageAdapter } from '../persistent-atom'
+
+/**
+ * What the CLI needs to know about a persisted atom, e.g. the options passed
+ * to `persistentAtom`, exported from a module.
+ */
+export type AtomDefinition = {
+  /** The storage key. `--atom` matches it as well as the export name. */
+  key?: string
+  schema?: Schema<unknown>
+  version?: number
+  migrations?: Record<number, Migration>
+  versionSchemas?: Record<number, Schema<unknown>>
+  codec?: Codec
+}
+
+export type Issue = { path: PropertyKey[]; message: string }
+
+const isDefinition = (value: unknown): value is AtomDefinition =>
+  value != null &&
+  typeof value === 'object' &&
+  ('schema' in value || 'version' in value || 'migrations' in value)
+
+/**
+ * Loads the definitions exported by a module, by export name. A default
+ * export can be a definition or an object of definitions.
+ */
+export async function loadDefinitions(
+  modulePath: string
+): Promise<Record<string, AtomDefinition>> {
+  const url = pathToFileURL(path.resolve(modulePath)).href
+  const exports = (await import(url)) as Record<string, unknown>
+
+  const definitions: Record<string, AtomDefinition> = {}
+  for (const [name, value] of Object.entries(exports)) {
+    if (isDefinition(value)) {
+      definitions[name] = value
+    } else if (name === 'default' && value && typeof value === 'object') {
+      for (const [nested, definition] of Object.entries(value)) {
+        if (isDefinition(definition)) definitions[nested] = definition
+      }
+    }
+  }
+  return definitions
+}
+
+/** Picks the definition named `name` (export name or key), or the only one. */
+export function pickDefinition(
+  definitions: Record<string, AtomDefinition>,
+  name?: string
+): AtomDefinition {
+  const entries = Object.entries(definitions)
+  const names = entries.map(([exportName]) => exportName).join(', ')
+  if (name == null) {
+    if (entries.length === 1) return entries[0][1]
+    throw new Error(
+      entries.length === 0
+        ? 'Error: the module exports no atom definitions'
+        : `Error: the module exports several atom definitions, pick one with --atom: ${names}`
+    )
+  }
+  const match = entries.find(
+    ([exportName, definition]) => exportName === name || definition.key === name
+  )
+  if (!match) {
+    throw new Error(`Error: no atom definition "${name}" (found: ${names})`)
+  }
+  return match[1]
+}
+
+/**
+ * Reads and decodes the envelope stored by a file adapter. With
+ * `verifyChecksum: false`, data that doesn't match its checksum is returned
+ * instead of throwing.
+ */
+export async function readEnvelope(
+  storage: StorageAdapter,
+  key: string,
+  codec: Codec = jsonCodec,
+  options?: { verifyChecksum?: boolean }
+): Promise<VersionedData<unknown> | undefined> {
+  const raw = await storage.getItem(key)
+  if (raw == null) return undefined
+  return decodeEnvelope(codec, raw, options)
+}
+
+export type ValidationResult =
+  { success: true; data: unknown } | { success: false; issues: Issue[] }
+
+/** Validates `data`, returning the parsed data or the validation issues. */
+export function validateData(
+  schema: Schema<unknown>,
+  data: unknown
+): ValidationResult {
+  const result = schema.safeParse(data)
+  if (result.success) return { success: true, data: result.data }
+  const error = result.error as { issues?: Issue[]; message?: string }
+  return {
+    success: false,
+    issues: error.issues ?? [{ path: [], message: String(error.message) }],
+  }
+}
+
+/** Formats issues as one line each, e.g. `✖ Expected string → at tasks[0].title`. */
+export function formatIssues(issues: Issue[]): string[] {
+  return issues.map(({ path, message }) => {
+    if (path.length === 0) return `✖ ${message}`
+    const at = path
+      .map((segment, i) =>
+        typeof segment === 'number'
+          ? `[${segment}]`
+          : `${i > 0 ? '.' : ''}${String(segment)}`
+      )
+      .join('')
+    return `✖ ${message} → at ${at}`
+  })
+}
+
+export type MigrationResult =
+  | { success: true; data: unknown }
+  | { success: false; message: string; issues?: Issue[] }
+
+/**
+ * Runs the migrations from `fromVersion` up to the current version the way
+ * hydration does, checking each step against its version schema. Stops at the
+ * first failing step.
+ */
+export async function migrateData(
+  definition: AtomDefinition,
+  data: unknown,
+  fromVersion: number,
+  context: { key: string; storage: StorageAdapter }
+): Promise<MigrationResult> {
+  const { version = 1, migrations = {}, versionSchemas = {} } = definition
+  try {
+    return {
+      success: true,
+      data: await migrate(data, fromVersion, {
+        ...context,
+        version,
+        migrations,
+        downMigrations: {},
+        versionSchemas,
+        onFutureVersion: 'corrupt',
+        logger: silentLogger,
+      }),
+    }
+  } catch (error) {
+    const { message, cause } = error as Error & { cause?: { issues?: Issue[] } }
+    const issues = cause?.issues
+    // Issues are listed one per line, so leave them out of the message
+    return {
+      success: false,
+      message: issues ? message.slice(0, message.indexOf(': ') + 1) : message,
+      issues,
+    }
+  }
+}
+
+// Longest common subsequence table, for diffLines
+function lcsTable(a: string[], b: string[]) {
+  const table = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i] === b[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+  return table
+}
+
+// Above this many table cells, diffLines prints the changed lines as removed
+// and added instead of building the table
+const MAX_DIFF_CELLS = 1_000_000
+
+/**
+ * A line diff of two values as formatted JSON: unchanged lines start with
+ * two spaces, removed lines with `- ` and added lines with `+ `. When the
+ * changed part of large values is too big to compare line by line, all of
+ * it is shown as removed and then added.
+ */
+export function diffLines(before: unknown, after: unknown): string[] {
+  const a = (JSON.stringify(before, null, 2) ?? 'undefined').split('\n')
+  const b = (JSON.stringify(after, null, 2) ?? 'undefined').split('\n')
+
+  // Only the lines between the common start and end need comparing
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let end = 0
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++
+  }
+  const removed = a.slice(start, a.length - end)
+  const added = b.slice(start, b.length - end)
+
+  const lines = a.slice(0, start).map((line) => `  ${line}`)
+  if (removed.length * added.length > MAX_DIFF_CELLS) {
+    removed.forEach((line) => lines.push(`- ${line}`))
+    added.forEach((line) => lines.push(`+ ${line}`))
+  } else {
+    const table = lcsTable(removed, added)
+    let i = 0
+    let j = 0
+    while (i < removed.length && j < added.length) {
+      if (removed[i] === added[j]) {
+        lines.push(`  ${removed[i++]}`)
+        j++
+      } else if (table[i + 1][j] >= table[i][j + 1]) {
+        lines.push(`- ${removed[i++]}`)
+      } else {
+        lines.push(`+ ${added[j++]}`)
+      }
+    }
+    while (i < removed.length) lines.push(`- ${removed[i++]}`)
+    while (j < added.length) lines.push(`+ ${added[j++]}`)
+  }
+  a.slice(a.length - end).forEach((line) => lines.push(`  ${line}`))
+  return lines
+}
@@ -0,0 +1,172 @@
+/**
+ * Turns the versioned envelope into the string handed to the storage adapter,
+ * and back.
+ */
+export interface Codec {
+  encode(value: unknown): string | Promise<string>
+  decode(raw: string): unknown
+}
+
+/**
+ * A string-to-string step chained after a codec with `pipeCodec`
+ * (e.g. compression). `decode` must reverse `encode`.
+ */
+export interface Transform {
+  encode(input: string): string | Promise<string>
+  decode(input: string): string | Promise<string>
+}
+
+export const jsonCodec: Codec = {
+  encode: (value) => JSON.stringify(value),
+  decode: (raw) => JSON.parse(raw) as unknown,
+}
+
+// Rich values are stored as `{ [TYPE_KEY]: type, value }` objects, so plain
+// objects must not use this key themselves.
+export const TYPE_KEY = '$zpType'
+
+type Tagged = { [TYPE_KEY]: string; value?: unknown }
+
+function isTagged(value: unknown): value is Tagged {
+  return (
+    value != null &&
+    typeof value === 'object' &&
+    typeof (value as Record<string, unknown>)[TYPE_KEY] === 'string'
+  )
+}
+
+function tag(
+  this: Record<string, unknown> | unknown[],
+  key: string,
+  value: unknown
+): unknown {
+  // `value` has already been through toJSON(), so look at the original
+  const original = (this as Record<string, unknown>)[key]
+  if (original instanceof Date) {
+    return { [TYPE_KEY]: 'Date', value: value as string | null }
+  }
+  if (original instanceof Map) {
+    return { [TYPE_KEY]: 'Map', value: [...original] }
+  }
+  if (original instanceof Set) {
+    return { [TYPE_KEY]: 'Set', value: [...original] }
+  }
+  if (typeof original === 'bigint') {
+    return { [TYPE_KEY]: 'BigInt', value: original.toString() }
+  }
+  if (original === undefined) {
+    return { [TYPE_KEY]: 'undefined' }
+  }
+  return value
+}
+
+function untag(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(untag)
+  if (value == null || typeof value !== 'object') return value
+
+  if (isTagged(value)) {
+    switch (value[TYPE_KEY]) {
+      case 'Date':
+        return new Date((value.value as string | null) ?? NaN)
+      case 'Map':
+        return new Map(untag(value.value) as [unknown, unknown][])
+      case 'Set':
+        return new Set(untag(value.value) as unknown[])
+      case 'BigInt':
+        return BigInt(value.value as string)
+      case 'undefined':
+        return undefined
+    }
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = untag(entry)
+  }
+  return result
+}
+
+/**
+ * A JSON codec that also round-trips `Date`, `Map`, `Set`, `BigInt` and `undefined`.
+ */
+export const richJsonCodec: Codec = {
+  encode: (value) => JSON.stringify(value, tag),
+  decode: (raw) => untag(JSON.parse(raw)),
+}
+
+/**
+ * Chains string transforms after a codec. Transforms run in order when
+ * writing and in reverse order when reading.
+ */
+export function pipeCodec(codec: Codec, ...transforms: Transform[]): Codec {
+  return {
+    async encode(value) {
+      let output = await codec.encode(value)
+      for (const transform of transforms) {
+        output = await transform.encode(output)
+      }
+      return output
+    },
+    async decode(raw) {
+      let input = raw
+      for (const transform of [...transforms].reverse()) {
+        input = await transform.decode(input)
+      }
+      return codec.decode(input)
+    },
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked to stay below the maximum number of function arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+) {
+  const output = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function compression(format: 'gzip' | 'deflate'): Transform {
+  // The prefix marks compressed values, so data written before compression
+  // was enabled can still be read
+  const prefix = `${format}:`
+  return {
+    async encode(input) {
+      const bytes = new TextEncoder().encode(input)
+      const compressed = await pipeBytes(bytes, new CompressionStream(format))
+      return prefix + bytesToBase64(compressed)
+    },
+    async decode(input) {
+      if (!input.startsWith(prefix)) return input
+      const bytes = base64ToBytes(input.slice(prefix.length))
+      const decompressed = await pipeBytes(
+        bytes,
+        new DecompressionStream(format)
+      )
+      return new TextDecoder().decode(decompressed)
+    },
+  }
+}
+
+/** Compresses values with gzip and stores them base64-encoded. */
+export const gzip = (): Transform => compression('gzip')
+
+/** Compresses values with deflate and stores them base64-encoded. */
+export const deflate = (): Transform => compression('deflate')
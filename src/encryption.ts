@@ -0,0 +1,174 @@
+import type { Logger } from './events'
+import type { StorageAdapter } from './persistent-atom'
+import type { Transform } from './codec'
+import { base64ToBytes, bytesToBase64 } from './codec'
+
+/**
+ * An AES-GCM key, given directly (`CryptoKey` or 16/24/32 raw bytes) or
+ * derived from a passphrase with PBKDF2-SHA-256.
+ */
+export type EncryptionKey =
+  | { id: string; key: CryptoKey | Uint8Array<ArrayBuffer> }
+  | { id: string; passphrase: string; salt?: string; iterations?: number }
+
+export type EncryptionOptions = {
+  /**
+   * The first key encrypts new values. All keys can decrypt, so after a key
+   * rotation old values are still readable and get re-encrypted on their next write.
+   */
+  keys: EncryptionKey[]
+  /**
+   * Read values that are not encrypted as they are, e.g. while enabling
+   * encryption for an existing store. Defaults to false.
+   */
+  allowPlaintext?: boolean
+  /** Receives the log output of `withEncryption`. Defaults to `console`. */
+  logger?: Logger
+}
+
+const PREFIX = 'enc:v1:'
+const DEFAULT_ITERATIONS = 600_000
+
+async function importKey(spec: EncryptionKey): Promise<CryptoKey> {
+  if ('passphrase' in spec) {
+    const encoder = new TextEncoder()
+    const material = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(spec.passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    )
+    return crypto.subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        salt: encoder.encode(spec.salt ?? `zod-persist:${spec.id}`),
+        iterations: spec.iterations ?? DEFAULT_ITERATIONS,
+      },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+  if (spec.key instanceof Uint8Array) {
+    return crypto.subtle.importKey('raw', spec.key, 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ])
+  }
+  return spec.key
+}
+
+/**
+ * A transform that encrypts values with AES-GCM. Use it as the last step of
+ * `pipeCodec`, or wrap a whole adapter with `withEncryption`.
+ *
+ * Values that can't be decrypted (wrong key, tampered data) throw, so
+ * hydration goes through the usual backup and `onCorruption` handling.
+ */
+export function encryption({
+  keys,
+  allowPlaintext = false,
+}: EncryptionOptions): Transform {
+  if (keys.length === 0) {
+    throw new Error('[persistentAtom] encryption() needs at least one key.')
+  }
+  // Keys are imported (and derived) once, on first use
+  const cryptoKeys = new Map<string, Promise<CryptoKey>>()
+  const getKey = (spec: EncryptionKey) => {
+    let key = cryptoKeys.get(spec.id)
+    if (!key) {
+      key = importKey(spec)
+      cryptoKeys.set(spec.id, key)
+    }
+    return key
+  }
+
+  return {
+    async encode(input) {
+      const [current] = keys
+      const iv = crypto.getRandomValues(new Uint8Array(12))
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await getKey(current),
+        new TextEncoder().encode(input)
+      )
+      return [
+        PREFIX + encodeURIComponent(current.id),
+        bytesToBase64(iv),
+        bytesToBase64(new Uint8Array(ciphertext)),
+      ].join(':')
+    },
+    async decode(input) {
+      if (!input.startsWith(PREFIX)) {
+        if (allowPlaintext) return input
+        throw new Error('Stored value is not encrypted')
+      }
+      const [keyId, iv, ciphertext] = input.slice(PREFIX.length).split(':')
+      const spec = keys.find((k) => k.id === decodeURIComponent(keyId))
+      if (!spec || iv == null || ciphertext == null) {
+        throw new Error(
+          `Stored value was encrypted with unknown key "${decodeURIComponent(keyId)}"`
+        )
+      }
+
+      let plaintext: ArrayBuffer
+      try {
+        plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: base64ToBytes(iv) },
+          await getKey(spec),
+          base64ToBytes(ciphertext)
+        )
+      } catch {
+        throw new Error(
+          `Failed to decrypt stored value with key "${spec.id}": wrong key or tampered data`
+        )
+      }
+      return new TextDecoder().decode(plaintext)
+    },
+  }
+}
+
+/**
+ * Wraps a storage adapter so every value is encrypted before it is stored
+ * and decrypted when it is read.
+ */
+export function withEncryption(
+  storage: StorageAdapter,
+  options: EncryptionOptions
+): StorageAdapter {
+  const transform = encryption(options)
+  const { logger = console } = options
+
+  return {
+    ...storage,
+    name: `encrypted(${storage.name})`,
+    async getItem(key) {
+      const value = await storage.getItem(key)
+      return value == null ? value : transform.decode(value)
+    },
+    async setItem(key, value) {
+      await storage.setItem(key, await transform.encode(value))
+    },
+    subscribe: storage.subscribe
+      ? (key, callback) => {
+          // Decrypt in order, so a slow decryption can't reorder changes
+          let changes = Promise.resolve()
+          return storage.subscribe!(key, (value) => {
+            changes = changes
+              .then(async () => {
+                callback(value == null ? value : await transform.decode(value))
+              })
+              .catch((error) => {
+                logger.error(
+                  `[persistentAtom] Ignoring external change for key "${key}" that could not be decrypted:`,
+                  error
+                )
+              })
+          })
+        }
+      : undefined,
+  }
+}
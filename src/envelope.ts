@@ -0,0 +1,284 @@
+import { TYPE_KEY } from './codec'
+import type { Codec } from './codec'
+import type { Logger } from './events'
+import { fnv1a } from './hash'
+import type { Migration, Schema, StorageAdapter } from './persistent-atom'
+
+export type VersionedData<T> = {
+  version: number
+  data: T
+  /** When the data was written, as returned by `Date.now()`. Only stored with `ttlMs` or `metadata`. */
+  updatedAt?: number
+  /** The fingerprint of the schema the data was written with. */
+  fingerprint?: string
+  /** A hash of the data, checked when it is read. Only stored with `checksum`. */
+  checksum?: string
+  /** Counts the writes of the value, starting at 1. Only stored with `metadata`. */
+  revision?: number
+  /** Who wrote the data, e.g. a process or tab id. Only stored with `metadata`. */
+  writer?: string
+}
+
+/** What the envelope says about the stored data, without the data itself. */
+export type EnvelopeMetadata = Omit<VersionedData<unknown>, 'data'>
+
+/** What is stored next to the data, if set. */
+export type EnvelopeMeta = Pick<
+  VersionedData<unknown>,
+  'updatedAt' | 'fingerprint' | 'revision' | 'writer'
+> & {
+  /** Store a checksum of the data. */
+  checksum?: boolean
+}
+
+/**
+ * What to do with data written by a newer version than the current one:
+ * - `readonly`: use it if it passes the schema (else keep the current value)
+ *   and never write, so the newer data survives until that version runs again
+ * - `corrupt`: treat it as corrupted (backup and `onCorruption`)
+ * - `downgrade`: run the `downMigrations` down to the current version
+ */
+export type FutureVersionPolicy = 'readonly' | 'corrupt' | 'downgrade'
+
+export type MigrationOptions = {
+  version: number
+  migrations: Record<number, Migration>
+  downMigrations: Record<number, Migration>
+  versionSchemas: Record<number, Schema<unknown>>
+  onFutureVersion: FutureVersionPolicy
+  key: string
+  storage: StorageAdapter
+  logger: Logger
+}
+
+// The checksum covers the data as JSON. `Map` and `Set` contents are tagged
+// like `richJsonCodec` stores them, since `JSON.stringify` would leave them out.
+// Dates are covered as their JSON strings, so they match with either codec.
+export function dataChecksum(data: unknown): string {
+  const json = JSON.stringify(data, (_key, value: unknown) => {
+    if (typeof value === 'bigint') return value.toString()
+    if (value instanceof Map) return { [TYPE_KEY]: 'Map', value: [...value] }
+    if (value instanceof Set) return { [TYPE_KEY]: 'Set', value: [...value] }
+    return value
+  })
+  return fnv1a(json ?? 'null')
+}
+
+export function createEnvelope<T>(
+  version: number,
+  data: T,
+  { updatedAt, fingerprint, checksum, revision, writer }: EnvelopeMeta = {}
+): VersionedData<T> {
+  const versionedData: VersionedData<T> = { version, data }
+  if (updatedAt != null) versionedData.updatedAt = updatedAt
+  if (fingerprint != null) versionedData.fingerprint = fingerprint
+  if (checksum) versionedData.checksum = dataChecksum(data)
+  if (revision != null) versionedData.revision = revision
+  if (writer != null) versionedData.writer = writer
+  return versionedData
+}
+
+/** The envelope without its data. */
+export function envelopeMetadata({
+  data: _data,
+  ...metadata
+}: VersionedData<unknown>): EnvelopeMetadata {
+  return metadata
+}
+
+// Enhanced serialization with versioning
+export function encodeEnvelope<T>(
+  codec: Codec,
+  version: number,
+  data: T,
+  meta: EnvelopeMeta = {}
+): string | Promise<string> {
+  return codec.encode(createEnvelope(version, data, meta))
+}
+
+// Unversioned (legacy) data is reported as version 0. Data that doesn't match
+// its checksum throws, like data that can't be parsed, unless `verifyChecksum`
+// is false (e.g. to show the data anyway).
+export async function decodeEnvelope(
+  codec: Codec,
+  raw: string,
+  { verifyChecksum = true }: { verifyChecksum?: boolean } = {}
+): Promise<VersionedData<unknown>> {
+  let parsed: unknown
+
+  try {
+    parsed = await codec.decode(raw)
+  } catch (error) {
+    throw new Error(`Failed to parse stored data: ${String(error)}`)
+  }
+
+  // Check if data is versioned
+  const isVersioned =
+    parsed &&
+    typeof parsed === 'object' &&
+    'version' in parsed &&
+    'data' in parsed
+
+  if (isVersioned) {
+    const envelope = parsed as VersionedData<unknown>
+    if (verifyChecksum && envelope.checksum != null) {
+      const actual = dataChecksum(envelope.data)
+      if (actual !== envelope.checksum) {
+        throw new Error(
+          `Stored data does not match its checksum (expected ${envelope.checksum}, got ${actual}). It was changed or only partially written.`
+        )
+      }
+    }
+    return envelope
+  }
+  // Legacy data without version
+  return { version: 0, data: parsed }
+}
+
+// Validates `data` against the schema for `version`, if there is one
+function validateVersion(
+  data: unknown,
+  version: number,
+  opts: MigrationOptions
+): unknown {
+  const versionSchema = opts.versionSchemas[version]
+  return versionSchema ? validate(versionSchema, data) : data
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Runs the migrations from `fromVersion` up to `toVersion`. Errors keep the
+// error that caused them, e.g. the schema error with its issues, as `cause`.
+export async function migrate(
+  data: unknown,
+  fromVersion: number,
+  opts: MigrationOptions
+): Promise<unknown> {
+  const { version: toVersion, migrations, key, storage, logger } = opts
+  if (fromVersion >= toVersion) return data
+
+  logger.log(
+    `[persistentAtom] Migrating data for key "${key}" from version ${fromVersion} to ${toVersion}`
+  )
+
+  try {
+    data = validateVersion(data, fromVersion, opts)
+  } catch (error) {
+    throw Object.assign(
+      new Error(
+        `Stored data does not match the schema for version ${fromVersion}: ${errorMessage(error)}`
+      ),
+      { cause: error }
+    )
+  }
+
+  for (let v = fromVersion + 1; v <= toVersion; v++) {
+    const migration = migrations[v]
+    try {
+      if (migration) {
+        data = await migration(data, {
+          key,
+          storage,
+          fromVersion: v - 1,
+          toVersion: v,
+        })
+        data = validateVersion(data, v, opts)
+        logger.log(`[persistentAtom] Successfully migrated to version ${v}`)
+      } else {
+        data = validateVersion(data, v, opts)
+      }
+    } catch (error) {
+      throw Object.assign(
+        new Error(`Migration to version ${v} failed: ${errorMessage(error)}`),
+        { cause: error }
+      )
+    }
+  }
+  return data
+}
+
+// Runs the down-migrations from `fromVersion` down to `toVersion`.
+// `downMigrations[v]` turns version v data into version v - 1 data.
+export async function migrateDown(
+  data: unknown,
+  fromVersion: number,
+  opts: MigrationOptions
+): Promise<unknown> {
+  const { version: toVersion, downMigrations, key, storage, logger } = opts
+  if (fromVersion <= toVersion) return data
+
+  logger.log(
+    `[persistentAtom] Downgrading data for key "${key}" from version ${fromVersion} to ${toVersion}`
+  )
+
+  for (let v = fromVersion; v > toVersion; v--) {
+    const migration = downMigrations[v]
+    try {
+      if (migration) {
+        data = await migration(data, {
+          key,
+          storage,
+          fromVersion: v,
+          toVersion: v - 1,
+        })
+      }
+      data = validateVersion(data, v - 1, opts)
+    } catch (error) {
+      throw new Error(
+        `Downgrade from version ${v} to ${v - 1} failed: ${errorMessage(error)}`
+      )
+    }
+  }
+  return data
+}
+
+/**
+ * Brings stored data to the current version, applying the future version policy.
+ * `readOnly` is true when the data is newer and must not be overwritten.
+ */
+export async function migrateStored(
+  data: unknown,
+  dataVersion: number,
+  opts: MigrationOptions
+): Promise<{ data: unknown; readOnly: boolean }> {
+  const { version, onFutureVersion, key, logger } = opts
+
+  if (dataVersion <= version) {
+    return {
+      data: await migrate(data, dataVersion, opts),
+      readOnly: false,
+    }
+  }
+
+  switch (onFutureVersion) {
+    case 'corrupt':
+      throw new Error(
+        `Stored data for key "${key}" has version ${dataVersion}, newer than the supported version ${version}`
+      )
+    case 'downgrade':
+      return {
+        data: await migrateDown(data, dataVersion, opts),
+        readOnly: false,
+      }
+    case 'readonly':
+      logger.warn(
+        `[persistentAtom] Stored data for key "${key}" has version ${dataVersion}, newer than the supported version ${version}. ` +
+          `It will not be overwritten.`
+      )
+      return { data, readOnly: true }
+  }
+}
+
+// Validate with Zod schema if provided
+export function validate<T>(schema: Schema<T> | undefined, data: unknown): T {
+  if (schema) {
+    const result = schema.safeParse(data)
+    if (!result.success) {
+      throw result.error
+    }
+    return result.data
+  }
+  return data as T
+}
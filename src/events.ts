@@ -0,0 +1,50 @@
+import type { BackupInfo } from './backups'
+
+/**
+ * Where log output goes. `console` is a logger, and so is `silentLogger`.
+ */
+export interface Logger {
+  log(...args: unknown[]): void
+  warn(...args: unknown[]): void
+  error(...args: unknown[]): void
+}
+
+/** A logger that drops all output. */
+export const silentLogger: Logger = {
+  log() {},
+  warn() {},
+  error() {},
+}
+
+/**
+ * Hooks for observing a persistent store, e.g. to send events to telemetry.
+ * They are called after the fact; errors they throw are logged and ignored.
+ */
+export type PersistEvents<T> = {
+  /** Called once the stored value has been loaded (or the fallback value used). */
+  onHydrated?: (value: T) => void
+  /** Called after stored data was migrated or downgraded. */
+  onMigrated?: (fromVersion: number, toVersion: number) => void
+  /** Called after a value was written to storage. */
+  onWrite?: (value: T) => void
+  /** Called for every failed write, including ones that are retried. */
+  onWriteError?: (error: unknown, value: T) => void
+  /** Called when stored, external or newly set data does not match the schema. */
+  onValidationError?: (error: unknown, data: unknown) => void
+  /** Called after stored data was backed up, before it is replaced. */
+  onBackup?: (backup: BackupInfo) => void
+}
+
+// Calls an event hook without letting it break persistence
+export function emit<A extends unknown[]>(
+  logger: Logger,
+  hook: ((...args: A) => void) | undefined,
+  ...args: A
+) {
+  if (!hook) return
+  try {
+    hook(...args)
+  } catch (error) {
+    logger.error('[persistentAtom] Event hook threw:', error)
+  }
+}
@@ -0,0 +1,81 @@
+import { toJSONSchema } from 'zod'
+import type { ZodType } from 'zod'
+import type { Logger } from './events'
+import { fnv1a } from './hash'
+import type { Schema } from './persistent-atom'
+
+/**
+ * What to do when stored data was written with a different schema than the
+ * current one, but at the same version:
+ * - `warn`: log a warning and validate the data as usual
+ * - `error`: treat the data as corrupted (backup and `onCorruption`)
+ * - `ignore`: don't compare fingerprints
+ */
+export type SchemaChangePolicy = 'warn' | 'error' | 'ignore'
+
+// JSON with object keys (and `required` lists) in a fixed order, so schemas
+// that only differ in the order of their properties give equal strings
+function stableStringify(value: unknown, key?: string): string {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => stableStringify(item))
+    if (key === 'required') items.sort()
+    return `[${items.join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (field) =>
+          `${JSON.stringify(field)}:${stableStringify((value as Record<string, unknown>)[field], field)}`
+      )
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * A deterministic fingerprint of a Zod schema, computed from the JSON Schema
+ * of the data it accepts. It changes when the shape of the data changes, not
+ * when the schema is merely rebuilt. Returns undefined for schemas that
+ * aren't Zod schemas.
+ */
+export function schemaFingerprint(schema: Schema<unknown>): string | undefined {
+  try {
+    const jsonSchema = toJSONSchema(schema as unknown as ZodType, {
+      io: 'input',
+      unrepresentable: 'any',
+    })
+    return fnv1a(stableStringify(jsonSchema))
+  } catch {
+    return undefined
+  }
+}
+
+type FingerprintCheck = {
+  key: string
+  version: number
+  /** The fingerprint of the current schema. */
+  fingerprint: string | undefined
+  policy: SchemaChangePolicy
+  logger: Logger
+  /** The log prefix, e.g. `[persistentAtom]`. */
+  prefix: string
+}
+
+/**
+ * Reports stored data that was written with another schema at the current
+ * version, i.e. the schema changed without a version bump.
+ */
+export function checkFingerprint(
+  stored: { version: number; fingerprint?: string },
+  { key, version, fingerprint, policy, logger, prefix }: FingerprintCheck
+) {
+  if (policy === 'ignore' || !fingerprint || !stored.fingerprint) return
+  if (stored.version !== version || stored.fingerprint === fingerprint) return
+
+  const message =
+    `The schema for key "${key}" changed since the stored data was written, but the version is still ${version}. ` +
+    `Bump \`version\` and add a migration, or the stored data may fail validation.`
+  if (policy === 'error') throw new Error(message)
+  logger.warn(`${prefix} ${message}`)
+}
@@ -0,0 +1,12 @@
+/**
+ * 64-bit FNV-1a hash of a string's UTF-8 bytes, as 16 hex digits. It is fast
+ * and detects accidental changes, but is not a cryptographic hash.
+ */
+export function fnv1a(text: string) {
+  let hash = 0xcbf29ce484222325n
+  for (const byte of new TextEncoder().encode(text)) {
+    hash ^= BigInt(byte)
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn
+  }
+  return hash.toString(16).padStart(16, '0')
+}
@@ -0,0 +1,92 @@
+import { atom } from 'nanostores'
+import type { ReadableAtom } from 'nanostores'
+
+export type HistoryOptions = {
+  /** How many undo steps are kept. Defaults to 100. */
+  limit?: number
+  /**
+   * Changes made within this many milliseconds of the previous one are
+   * undone together, e.g. while typing. Defaults to `debounceMs`.
+   */
+  groupMs?: number
+}
+
+/** The undo and redo stacks, oldest first. */
+export type HistoryState<E> = {
+  past: E[]
+  future: E[]
+}
+
+export type History<E> = {
+  canUndo: ReadableAtom<boolean>
+  canRedo: ReadableAtom<boolean>
+  /** Records `previous`, the value before a change, unless the change continues the current group. */
+  record: (previous: E) => void
+  /** Returns the value to go back to, and remembers `current` for redo. */
+  undo: (current: E) => E
+  /** Returns the value to go forward to, and remembers `current` for undo. */
+  redo: (current: E) => E
+  clear: () => void
+  get: () => HistoryState<E>
+  load: (state: HistoryState<E>) => void
+}
+
+// Undo and redo stacks for the persisted part of an atom's value
+export function createHistory<E>({
+  limit = 100,
+  groupMs = 0,
+}: HistoryOptions = {}): History<E> {
+  let past: E[] = []
+  let future: E[] = []
+  // When the last change was recorded, to group changes made in quick succession
+  let lastChangeAt = -Infinity
+
+  const canUndo = atom(false)
+  const canRedo = atom(false)
+
+  const update = () => {
+    if (past.length > limit) past = past.slice(past.length - limit)
+    canUndo.set(past.length > 0)
+    canRedo.set(future.length > 0)
+  }
+
+  return {
+    canUndo,
+    canRedo,
+    record(previous) {
+      const now = Date.now()
+      const continuesGroup = now - lastChangeAt < groupMs
+      lastChangeAt = now
+      if (continuesGroup) return
+      past.push(previous)
+      future = []
+      update()
+    },
+    undo(current) {
+      const [previous] = past.splice(-1)
+      future.push(current)
+      lastChangeAt = -Infinity
+      update()
+      return previous
+    },
+    redo(current) {
+      const [next] = future.splice(-1)
+      past.push(current)
+      lastChangeAt = -Infinity
+      update()
+      return next
+    },
+    clear() {
+      past = []
+      future = []
+      lastChangeAt = -Infinity
+      update()
+    },
+    get: () => ({ past: [...past], future: [...future] }),
+    load(state) {
+      past = [...state.past]
+      future = [...state.future]
+      update()
+    },
+  }
+}
@@ -1,4 +1,6 @@
 export { persistentAtom } from './persistent-atom'
+export type { PersistentMap, MapOptions } from './persistent-map'
+export { persistentMap } from './persistent-map'
 
 // Types
 export type {
@@ -6,9 +8,71 @@ export type {
   PersistentAtom,
   Options,
   Migration,
+  MigrationContext,
 } from './persistent-atom'
+export type { EnvelopeMetadata, FutureVersionPolicy } from './envelope'
+
+// Schema fingerprints
+export { schemaFingerprint } from './fingerprint'
+export type { SchemaChangePolicy } from './fingerprint'
+
+// Events and logging
+export { silentLogger } from './events'
+export type { Logger, PersistEvents } from './events'
+
+// Status
+export type { PersistState, PersistStatus } from './status'
+
+// Registry
+export { listAtoms, readyAll, flushAll, flushOnExit } from './registry'
+export type { PersistedStoreInfo, FlushOnExitOptions } from './registry'
+
+// Backups
+export { withBackups, pruneBackups } from './backups'
+export type { BackupInfo, BackupOptions, BackupStorageAdapter } from './backups'
+
+// History
+export type { HistoryOptions } from './history'
+
+// Write queue
+export type { RetryOptions } from './write-queue'
+
+// Migrations
+export { migrationChain } from './migrations'
+export type { MigrationChain } from './migrations'
+
+// Codecs
+export { jsonCodec, richJsonCodec, pipeCodec, gzip, deflate } from './codec'
+export type { Codec, Transform } from './codec'
+
+// Encryption
+export { encryption, withEncryption } from './encryption'
+export type { EncryptionKey, EncryptionOptions } from './encryption'
+
+// CLI
+export type { AtomDefinition } from './cli/store'
 
 // Adapters
-export { createFileAdapter, createLocalStorageAdapter } from './adapters'
+export {
+  createFileAdapter,
+  createDocumentFileAdapter,
+  createIndexedDBAdapter,
+  createLocalStorageAdapter,
+  createSQLiteAdapter,
+  createWebStorageAdapter,
+  withPrefix,
+  withFallback,
+  withMemoryCache,
+  withReadOnly,
+} from './adapters'
 
-export type { LocalStorageInterface } from './adapters'
+export type {
+  FileAdapterOptions,
+  IndexedDBAdapterOptions,
+  IndexedDBFactory,
+  LocalStorageInterface,
+  SQLiteAdapterOptions,
+  SQLiteDatabase,
+  SQLiteStatement,
+  WebStorage,
+} from './adapters'
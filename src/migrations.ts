@@ -0,0 +1,63 @@
+import type { Migration, MigrationContext, Schema } from './persistent-atom'
+
+/**
+ * The result of `migrationChain`. Spread it into the options of
+ * `persistentAtom` or `persistentMap` to set `version`, `migrations`
+ * and `versionSchemas` together.
+ */
+export type MigrationChain<T> = {
+  version: number
+  migrations: Record<number, Migration>
+  versionSchemas: Record<number, Schema<unknown>>
+  /**
+   * Adds a migration to the next version. `migrate` receives the data of the
+   * current last version, typed, and its result is validated against `schema`.
+   */
+  to<N>(
+    schema: Schema<N>,
+    migrate: (data: T, context: MigrationContext) => N | Promise<N>
+  ): MigrationChain<N>
+}
+
+/**
+ * Builds a typed migration chain, starting from the schema of the first
+ * version (version 1 unless `version` is given).
+ *
+ * ```ts
+ * const chain = migrationChain(v1Schema)
+ *   .to(v2Schema, (v1) => v1.map((name) => ({ name })))
+ *   .to(v3Schema, (v2) => v2.map((item) => ({ ...item, createdAt: 0 })))
+ *
+ * persistentAtom([], { key: 'items', storage, schema: v3Schema, ...chain })
+ * ```
+ */
+export function migrationChain<T>(
+  schema: Schema<T>,
+  version = 1
+): MigrationChain<T> {
+  return createChain<T>(version, {}, { [version]: schema })
+}
+
+function createChain<T>(
+  version: number,
+  migrations: Record<number, Migration>,
+  versionSchemas: Record<number, Schema<unknown>>
+): MigrationChain<T> {
+  return {
+    version,
+    migrations,
+    versionSchemas,
+    to(schema, migrate) {
+      const next = version + 1
+      return createChain(
+        next,
+        // Data is validated against the previous version's schema before it gets here
+        {
+          ...migrations,
+          [next]: (data, context) => migrate(data as T, context),
+        },
+        { ...versionSchemas, [next]: schema }
+      )
+    },
+  }
+}
@@ -1,46 +1,208 @@
 import { atom } from 'nanostores'
-import type { WritableAtom } from 'nanostores'
+import type { ReadableAtom, WritableAtom } from 'nanostores'
+import { jsonCodec } from './codec'
+import type { Codec } from './codec'
+import {
+  createEnvelope,
+  dataChecksum,
+  decodeEnvelope,
+  encodeEnvelope,
+  envelopeMetadata,
+  migrateStored,
+  validate,
+} from './envelope'
+import type {
+  EnvelopeMetadata,
+  FutureVersionPolicy,
+  MigrationOptions,
+} from './envelope'
+import { createWriteQueue } from './write-queue'
+import { emit } from './events'
+import type { Logger, PersistEvents } from './events'
+import { createStatusTracker } from './status'
+import type { PersistStatus } from './status'
+import { createMigrationBackup, createStorageBackup } from './backups'
+import type { BackupInfo, BackupOptions } from './backups'
+import { createHistory } from './history'
+import type { History, HistoryOptions, HistoryState } from './history'
+import { registerStore } from './registry'
+import { checkFingerprint, schemaFingerprint } from './fingerprint'
+import type { SchemaChangePolicy } from './fingerprint'
+import type { RetryOptions } from './write-queue'
 
 export interface StorageAdapter {
   name: string
   filePath?: string
   getItem(this: void, key: string): Promise<string | null | undefined>
   setItem(this: void, key: string, value: string): Promise<void>
+  /** Optional: deletes the stored value for `key`. */
+  removeItem?: (this: void, key: string) => Promise<void>
+  /** Optional: lists the keys that have a stored value. */
+  keys?: (this: void) => Promise<string[]>
   createBackup?: (filePath: string) => Promise<void>
+  /** Optional: copies the value stored under `key`. Resolves to undefined if there is none. */
+  backup?: (this: void, key: string) => Promise<BackupInfo | undefined>
+  /** Optional: lists the backups of `key`, newest first. */
+  listBackups?: (this: void, key: string) => Promise<BackupInfo[]>
+  /** Optional: replaces the value stored under `key` with a backup. */
+  restoreBackup?: (this: void, key: string, id: string) => Promise<void>
+  /** Optional: deletes a backup of `key`. */
+  deleteBackup?: (this: void, key: string, id: string) => Promise<void>
+  /**
+   * Optional: notifies `callback` when `key` is changed by someone else
+   * (another tab, window or process). Returns a function that stops listening.
+   */
+  subscribe?: (
+    this: void,
+    key: string,
+    callback: (value: string | null | undefined) => void
+  ) => () => void
 }
 
-export type Migration = (oldData: unknown) => unknown
+export type MigrationContext = {
+  key: string
+  /** The storage adapter, e.g. to read data kept under another key. */
+  storage: StorageAdapter
+  fromVersion: number
+  toVersion: number
+}
+
+/** Turns data of the previous version into data of the next one. May be async. */
+export type Migration = (oldData: unknown, context: MigrationContext) => unknown
 
-export type Options<T> = {
+export type Schema<T> = {
+  safeParse: (data: unknown) =>
+    | { success: true; data: T }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    | { success: false; error: any } // Zod's error type is too complex to specify
+}
+
+/**
+ * `T` is the value held by the atom, `P` the part of it that is persisted
+ * (the same as `T` unless `partialize` or `omit` is used).
+ */
+export type Options<T, P = T> = {
   key: string
   storage: StorageAdapter
   debounceMs?: number
   isEqual?: (a: T, b: T) => boolean
-  schema?: {
-    safeParse: (data: unknown) =>
-      | { success: true; data: T }
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      | { success: false; error: any } // Zod's error type is too complex to specify
-  }
+  /** Turns the versioned value into a string and back. Defaults to `jsonCodec`. */
+  codec?: Codec
+  /** Validates the persisted value (`P`). */
+  schema?: Schema<P>
   version?: number
+  /** Migrations receive and return the persisted value, and may be async. */
   migrations?: Record<number, Migration>
+  /**
+   * Schemas for older versions, keyed by version. Stored data is validated
+   * against the schema of its version, and every migration step against the
+   * schema of the version it produces.
+   */
+  versionSchemas?: Record<number, Schema<unknown>>
+  /** Down-migrations for data written by a newer version: `downMigrations[v]` turns version v data into version v - 1. */
+  downMigrations?: Record<number, Migration>
+  /**
+   * What to do with data written by a newer version. Defaults to `readonly`,
+   * which keeps the newer data in storage and skips all writes.
+   */
+  onFutureVersion?: FutureVersionPolicy
+  /**
+   * What to do when the stored data was written with a different schema at
+   * the same version, i.e. the schema changed without a version bump.
+   * Defaults to `warn`.
+   */
+  onSchemaChange?: SchemaChangePolicy
   onCorruption?: (error: Error) => Promise<T>
-}
+  /** Picks the part of the value that is persisted. */
+  partialize?: (value: T) => P
+  /** Top-level fields that are not persisted. Shorthand for `partialize`. */
+  omit?: readonly (keyof T)[]
+  /**
+   * Combines the persisted value with the current one (the initial value
+   * on hydration). Defaults to a shallow merge when partializing.
+   */
+  merge?: (current: T, persisted: P) => T
+  /**
+   * Retries failed writes with exponential backoff. Writes never overlap, and
+   * values set while a write is running are coalesced into the next write.
+   */
+  retry?: RetryOptions
+  /** How many backups to keep, and whether to back up data before it is migrated. */
+  backups?: BackupOptions
+  /**
+   * Records past values for `undo()` and `redo()`. The history is stored
+   * under `${key}.history` and validated with `schema`.
+   */
+  history?: boolean | HistoryOptions
+  /**
+   * How long a stored value stays fresh. The time of each write is stored in
+   * the envelope, and an expired value is discarded on hydration in favour
+   * of `initial`, unless `revalidate` is set.
+   */
+  ttlMs?: number
+  /**
+   * Called after hydrating an expired value, which is used until it returns
+   * the fresh value (stale-while-revalidate).
+   */
+  revalidate?: (stale: T) => T | Promise<T>
+  /**
+   * Stores a checksum of the data. Stored data that doesn't match its
+   * checksum, e.g. a torn or hand-edited file, is treated as corrupted.
+   */
+  checksum?: boolean
+  /**
+   * Stores when, by whom and in which revision the value was written, see
+   * `$atom.metadata`. `writer` identifies this process or tab.
+   */
+  metadata?: boolean | { writer?: string }
+  /** Receives the log output. Defaults to `console`; pass `silentLogger` to turn it off. */
+  logger?: Logger
+} & PersistEvents<T>
 
 export type PersistentAtom<T> = WritableAtom<T> & {
   ready: Promise<void>
+  /** Whether the value is hydrating, waiting to be saved, saving or saved. */
+  status: ReadableAtom<PersistStatus>
   flush: () => Promise<void>
   setAndFlush: (next: T) => Promise<void>
+  /**
+   * Restores the initial value and deletes the stored value (unless it was
+   * written by a newer version and `onFutureVersion` is `readonly`).
+   */
+  reset: () => Promise<void>
+  /**
+   * Stops persisting the atom: cancels the pending debounced write (writing it
+   * first unless `flush` is false) and unsubscribes from the atom and the storage.
+   */
+  destroy: (options?: { flush?: boolean }) => Promise<void>
+  /** Goes back to the value before the last change. Needs the `history` option. */
+  undo: () => void
+  /** Reapplies the last undone change. Needs the `history` option. */
+  redo: () => void
+  canUndo: ReadableAtom<boolean>
+  canRedo: ReadableAtom<boolean>
+  /** When the stored value expires, as returned by `Date.now()`. Needs the `ttlMs` option. */
+  expiresAt: ReadableAtom<number | undefined>
+  /**
+   * What the envelope in storage says about the value: its version and, if
+   * they were stored, `updatedAt`, `revision`, `writer` and `checksum`.
+   * Undefined until a value was read from or written to storage.
+   */
+  metadata: ReadableAtom<EnvelopeMetadata | undefined>
+  /**
+   * Uses `value` until hydration finishes, e.g. the value rendered on the
+   * server. A stored value replaces it; it is never written to storage.
+   * Does nothing once the atom is hydrated.
+   */
+  seed: (value: T) => void
 }
 
-type VersionedData<T> = {
-  version: number
-  data: T
-}
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value)
 
-export function persistentAtom<T>(
+export function persistentAtom<T, P = T>(
   initial: T,
-  opts: Options<T>
+  opts: Options<T, P>
 ): PersistentAtom<T> {
   if (!opts?.key) {
     throw new Error('[persistentAtom] Missing "key" option.')
@@ -48,132 +210,318 @@ export function persistentAtom<T>(
   if (!opts?.storage) {
     throw new Error('[persistentAtom] Missing "storage" option.')
   }
+  // Adapters with a `filePath` keep a single value, unless they can list
+  // their keys, so the history would overwrite the value
+  if (opts.history && opts.storage.filePath && !opts.storage.keys) {
+    throw new Error(
+      `[persistentAtom] The "history" option needs an adapter that stores several keys, but ${opts.storage.name} keeps a single value. ` +
+        `Use createDocumentFileAdapter, or keep the history in another adapter.`
+    )
+  }
 
   const {
     key,
     storage,
     debounceMs,
     isEqual,
+    codec = jsonCodec,
     schema,
     version = 1,
     migrations = {},
+    downMigrations = {},
+    versionSchemas = {},
+    onFutureVersion = 'readonly',
+    onSchemaChange = 'warn',
     onCorruption,
+    omit,
+    merge,
+    retry,
+    backups,
+    history: historyOptions,
+    ttlMs,
+    revalidate,
+    checksum,
+    metadata: metadataOptions,
+    logger = console,
+    onHydrated,
+    onMigrated,
+    onWrite,
+    onWriteError,
+    onValidationError,
+    onBackup,
   } = opts
 
+  const partialize =
+    opts.partialize ??
+    (omit &&
+      ((value: T) => {
+        const persisted = { ...value }
+        for (const field of omit) delete persisted[field]
+        return persisted as unknown as P
+      }))
+
+  // The value that gets persisted
+  const persisted = (value: T): P =>
+    partialize ? partialize(value) : (value as unknown as P)
+
+  // Combines a persisted value with `current`
+  const restore = (stored: P, current: T): T => {
+    if (merge) return merge(current, stored)
+    if (partialize && isPlainObject(current) && isPlainObject(stored)) {
+      return { ...current, ...stored }
+    }
+    return stored as unknown as T
+  }
+
   const a = atom<T>(initial) as PersistentAtom<T>
+  const status = createStatusTracker()
+  a.status = status.$status
+  const history = historyOptions
+    ? createHistory<P>({
+        groupMs: debounceMs,
+        ...(historyOptions === true ? {} : historyOptions),
+      })
+    : undefined
+  const historyKey = `${key}.history`
+  a.canUndo = history?.canUndo ?? atom(false)
+  a.canRedo = history?.canRedo ?? atom(false)
+  const expiresAt = atom<number | undefined>(undefined)
+  a.expiresAt = expiresAt
+  const metadata = atom<EnvelopeMetadata | undefined>(undefined)
+  a.metadata = metadata
+  const writer =
+    typeof metadataOptions === 'object' ? metadataOptions.writer : undefined
   let debouncer: NodeJS.Timeout | undefined
   let isFlushing = false
   let isHydrationComplete = false
+  // Set while the atom is updated without persisting the new value
+  let isSilentUpdate = false
+  let isDestroyed = false
+  let unbindListener: (() => void) | undefined
+  let unsubscribeStorage: (() => void) | undefined
+  // The raw value we last read from or wrote to storage
+  let lastRaw: string | null | undefined
+  // With partialize, the checksum of the persisted data we last read or wrote.
+  // It leaves out the metadata that changes on every write, and doesn't depend
+  // on the codec, which may encrypt with a fresh IV every time.
+  let lastData: string | undefined
+  // Set while storage holds data from a newer version that must not be overwritten
+  let isReadOnly = false
+  // Set when the stored data had to be migrated and should be saved at the current version
+  let needsWriteBack = false
+  // Set while undo() or redo() update the atom, so the change isn't recorded
+  let isTimeTravel = false
+  // When the value we last read from storage was written, if it was recorded
+  let storedAt: number | undefined
+  // Set when the hydrated value has expired and must be revalidated
+  let needsRevalidate = false
+  // The revision of the value we last read from or wrote to storage
+  let revision = 0
+
+  const migrationOptions: MigrationOptions = {
+    version,
+    migrations,
+    downMigrations,
+    versionSchemas,
+    onFutureVersion,
+    key,
+    storage,
+    logger,
+  }
 
   // Save the original set method before we override it
   const baseSet = a.set.bind(a)
 
-  // Enhanced serialization with versioning
-  const serializeWithVersion = (value: T): string => {
-    const versionedData: VersionedData<T> = {
-      version,
-      data: value,
-    }
-    return JSON.stringify(versionedData)
-  }
+  const fingerprint = schema && schemaFingerprint(schema)
+
+  const isExpired = () =>
+    ttlMs != null && (storedAt == null || Date.now() - storedAt >= ttlMs)
 
   // Enhanced deserialization with schema validation and migrations
-  const deserializeWithValidation = (raw: string): T => {
-    let parsed: unknown
+  const deserializeWithValidation = async (
+    raw: string,
+    current: T
+  ): Promise<T> => {
+    lastData = undefined
+    const envelope = await decodeEnvelope(codec, raw)
+    const { version: dataVersion, data, updatedAt } = envelope
+    checkFingerprint(envelope, {
+      key,
+      version,
+      fingerprint,
+      policy: onSchemaChange,
+      logger,
+      prefix: '[persistentAtom]',
+    })
+    revision = envelope.revision ?? 0
+    metadata.set(envelopeMetadata(envelope))
+    const migrated = await migrateStored(data, dataVersion, migrationOptions)
 
+    let stored: P
     try {
-      parsed = JSON.parse(raw)
+      stored = validate(schema, migrated.data)
     } catch (error) {
-      throw new Error(`Failed to parse stored data: ${String(error)}`)
-    }
-
-    // Check if data is versioned
-    const isVersioned =
-      parsed &&
-      typeof parsed === 'object' &&
-      'version' in parsed &&
-      'data' in parsed
-
-    let data: unknown
-    let dataVersion: number
-
-    if (isVersioned) {
-      const versionedData = parsed as VersionedData<unknown>
-      dataVersion = versionedData.version
-      data = versionedData.data
-    } else {
-      // Legacy data without version
-      dataVersion = 0
-      data = parsed
+      emit(logger, onValidationError, error, migrated.data)
+      if (!migrated.readOnly) throw error
+      // Newer data this version can't read: keep it stored, but don't use it
+      logger.warn(
+        `[persistentAtom] Newer data for key "${key}" does not match the schema, keeping the current value.`
+      )
+      isReadOnly = true
+      return current
     }
+    isReadOnly = migrated.readOnly
+    needsWriteBack = !isReadOnly && dataVersion !== version
+    storedAt = updatedAt
+    expiresAt.set(
+      ttlMs != null && updatedAt != null ? updatedAt + ttlMs : undefined
+    )
+    if (needsWriteBack) emit(logger, onMigrated, dataVersion, version)
+    else if (partialize && !isReadOnly) lastData = dataChecksum(stored)
+    return restore(stored, current)
+  }
 
-    // Run migrations if needed
-    if (dataVersion < version) {
-      console.log(
-        `[persistentAtom] Migrating data for key "${key}" from version ${dataVersion} to ${version}`
+  const persist = async (value: T) => {
+    if (isReadOnly) {
+      logger.warn(
+        `[persistentAtom] Skipping write for key "${key}": storage holds data from a newer version.`
       )
-
-      for (let v = dataVersion + 1; v <= version; v++) {
-        const migration = migrations[v]
-        if (migration) {
-          try {
-            data = migration(data)
-            console.log(
-              `[persistentAtom] Successfully migrated to version ${v}`
-            )
-          } catch (error) {
-            let errorMessage = String(error)
-            if (error instanceof Error) {
-              errorMessage = error.message
-            }
-            throw new Error(`Migration to version ${v} failed: ${errorMessage}`)
-          }
-        }
-      }
+      return
     }
-
-    // Validate with Zod schema if provided
-    if (schema) {
-      const result = schema.safeParse(data)
-      if (!result.success) {
-        throw result.error
+    try {
+      // Synchronous codecs reach storage.setItem in the same tick as .set()
+      const data = persisted(value)
+      // Changes to fields that aren't persisted don't need a write
+      const dataHash = partialize ? dataChecksum(data) : undefined
+      if (partialize && dataHash === lastData) return
+      const updatedAt =
+        ttlMs != null || metadataOptions ? Date.now() : undefined
+      const envelope = createEnvelope(version, data, {
+        updatedAt,
+        fingerprint,
+        checksum,
+        revision: metadataOptions ? revision + 1 : undefined,
+        writer,
+      })
+      const encoded = codec.encode(envelope)
+      const raw = typeof encoded === 'string' ? encoded : await encoded
+      lastRaw = raw
+      lastData = dataHash
+      try {
+        await storage.setItem(key, raw)
+      } catch (error) {
+        lastRaw = undefined
+        lastData = undefined
+        throw error
+      }
+      revision = envelope.revision ?? revision
+      metadata.set(envelopeMetadata(envelope))
+      if (history) {
+        const state = history.get()
+        await storage.setItem(
+          historyKey,
+          await encodeEnvelope(codec, version, state)
+        )
+      }
+      if (updatedAt != null && ttlMs != null) {
+        expiresAt.set(updatedAt + ttlMs)
       }
-      return result.data
+      status.saved()
+      emit(logger, onWrite, value)
+    } catch (error) {
+      emit(logger, onWriteError, error, value)
+      logger.error(
+        `[persistentAtom] Failed to write to ${storage.name} for key "${key}":`,
+        error
+      )
+      throw error
     }
-
-    return data as T
   }
 
-  const write = async (value: T) => {
+  // Restores the undo history stored next to the value. History from another
+  // version, or that doesn't match the schema, is dropped.
+  const loadHistory = async (history: History<P>) => {
     try {
-      await storage.setItem(key, serializeWithVersion(value))
+      const raw = await storage.getItem(historyKey)
+      if (raw == null) return
+      const envelope = await decodeEnvelope(codec, raw)
+      if (envelope.version !== version) return
+      const { past, future } = envelope.data as Partial<HistoryState<unknown>>
+      if (!Array.isArray(past) || !Array.isArray(future)) {
+        throw new Error('Expected a { past, future } object')
+      }
+      history.load({
+        past: past.map((entry) => validate(schema, entry)),
+        future: future.map((entry) => validate(schema, entry)),
+      })
     } catch (error) {
-      console.error(
-        `[persistentAtom] Failed to write to ${storage.name} for key "${key}":`,
+      logger.warn(
+        `[persistentAtom] Ignoring invalid history for key "${key}":`,
         error
       )
-      throw error
     }
   }
 
-  const createBackup = async () => {
-    if (storage.filePath) {
-      if (storage.createBackup && storage.filePath) {
-        try {
-          await storage.createBackup(storage.filePath)
-        } catch (backupError) {
-          console.error(
-            '[persistentAtom] Failed to create backup:',
-            backupError
-          )
+  // Writes run one at a time, in order
+  const queue = createWriteQueue(persist, {
+    ...retry,
+    onRetry: (_error, attempt, delayMs) => {
+      logger.warn(
+        `[persistentAtom] Retrying write for key "${key}" in ${delayMs}ms (retry ${attempt} of ${retry?.retries})`
+      )
+    },
+  })
+  const write = (value: T) => status.track(queue.push(value))
+
+  const setSilently = (next: T) => {
+    isSilentUpdate = true
+    try {
+      baseSet(next)
+    } finally {
+      isSilentUpdate = false
+    }
+  }
+
+  const cancelPendingWrite = () => {
+    if (!debouncer) return false
+    clearTimeout(debouncer)
+    debouncer = undefined
+    status.setPending(false)
+    return true
+  }
+
+  // Update the atom from a change made elsewhere, without writing it back.
+  // Changes are applied one at a time, in the order they arrive.
+  let externalChanges = Promise.resolve()
+  const applyExternalChange = (raw: string | null | undefined) => {
+    externalChanges = externalChanges.then(async () => {
+      if (raw === lastRaw) return
+      lastRaw = raw
+
+      let next: T = initial
+      try {
+        if (raw == null) {
+          // Deleted elsewhere, so there is no newer data left to protect
+          isReadOnly = false
+          lastData = undefined
+          metadata.set(undefined)
+        } else {
+          next = await deserializeWithValidation(raw, a.get())
         }
-      } else if (storage.filePath) {
-        // Optional warning if filePath is set but backup method is missing
-        console.warn(
-          '[persistentAtom] Adapter defines filePath but does not provide createBackup functionality.'
+      } catch (error) {
+        logger.error(
+          `[persistentAtom] Ignoring invalid external change for key "${key}" from ${storage.name}:`,
+          error
         )
+        return
       }
-    }
+
+      // The external value supersedes any pending local write
+      cancelPendingWrite()
+      queue.clear()
+      status.clearError()
+      setSilently(next)
+    })
   }
 
   a.set = (next: T) => {
@@ -185,12 +533,21 @@ export function persistentAtom<T>(
       )
     }
     // Validate with schema before setting
-    if (schema) {
+    if (schema && partialize) {
+      // The schema describes only the persisted part of the value
+      const data = partialize(next)
+      const result = schema.safeParse(data)
+      if (!result.success) {
+        emit(logger, onValidationError, result.error, data)
+        throw result.error
+      }
+    } else if (schema) {
       const result = schema.safeParse(next)
       if (!result.success) {
+        emit(logger, onValidationError, result.error, next)
         throw result.error
       }
-      next = result.data
+      next = result.data as unknown as T
     }
 
     if (isEqual && isEqual(a.get(), next)) return
@@ -200,23 +557,46 @@ export function persistentAtom<T>(
   a.ready = (async () => {
     try {
       const raw = await storage.getItem(key)
+      lastRaw = raw
       if (raw != null) {
-        const data = deserializeWithValidation(raw)
-        baseSet(data)
+        const data = await deserializeWithValidation(raw, a.get())
+        if (!isExpired()) {
+          baseSet(data)
+        } else {
+          // Saving expired data would make it look fresh, but writing the
+          // same data again must refresh it
+          needsWriteBack = false
+          lastData = undefined
+          if (revalidate) {
+            // Use the stale value until revalidate() returns the fresh one
+            baseSet(data)
+            needsRevalidate = true
+          } else {
+            logger.log(
+              `[persistentAtom] Stored data for key "${key}" has expired, using the initial value`
+            )
+            expiresAt.set(undefined)
+          }
+        }
+        if (history) await loadHistory(history)
       }
     } catch (error) {
-      console.error(
+      logger.error(
         `[persistentAtom] Failed to hydrate atom for key "${key}" with storage ${storage.name}:`,
         error
       )
 
-      await createBackup()
+      await createStorageBackup(storage, key, {
+        logger,
+        onBackup,
+        retention: backups,
+      })
 
       // Use onCorruption handler if provided
       if (onCorruption) {
         try {
           const fallbackData = await onCorruption(error as Error)
-          console.log(
+          logger.log(
             `[persistentAtom] Using fallback data from onCorruption handler`
           )
           baseSet(fallbackData)
@@ -224,7 +604,7 @@ export function persistentAtom<T>(
           await write(fallbackData)
           return // Successfully recovered
         } catch (handlerError) {
-          console.error(
+          logger.error(
             '[persistentAtom] onCorruption handler failed:',
             handlerError
           )
@@ -232,41 +612,90 @@ export function persistentAtom<T>(
       }
 
       // If no handler or handler failed, re-throw
+      status.hydrationFailed(error)
       throw error
     }
-  })().then(() => {
+  })().then(async () => {
     isHydrationComplete = true
-    a.subscribe((value) => {
-      if (isFlushing) return
+    status.hydrated()
+    emit(logger, onHydrated, a.get())
+    if (isDestroyed) return
+    let previous = a.get()
+    unbindListener = a.listen((value) => {
+      if (history && !isSilentUpdate && !isTimeTravel) {
+        history.record(persisted(previous))
+      }
+      previous = value
+      if (isFlushing || isSilentUpdate) return
       if (debounceMs == null) {
         write(value).catch((error) => {
-          console.error(
+          logger.error(
             `[persistentAtom] Failed to write to ${storage.name} for key "${key}":`,
             error
           )
         })
       } else {
         if (debouncer) clearTimeout(debouncer)
+        status.setPending(true)
         debouncer = setTimeout(() => {
+          debouncer = undefined
           write(value).catch((error) => {
-            console.error(
+            logger.error(
               `[persistentAtom] Failed to write to ${storage.name} for key "${key}":`,
               error
             )
           })
+          // After the write started, so the status goes straight to saving
+          status.setPending(false)
         }, debounceMs)
       }
     })
+    unsubscribeStorage = storage.subscribe?.(key, applyExternalChange)
+
+    if (needsRevalidate && revalidate) {
+      needsRevalidate = false
+      const stale = a.get()
+      // Not awaited: the stale value is served until the fresh one arrives
+      Promise.resolve()
+        .then(() => revalidate(stale))
+        .then((fresh) => {
+          if (!isDestroyed) a.set(fresh)
+        })
+        .catch((error) => {
+          logger.error(
+            `[persistentAtom] Failed to revalidate expired data for key "${key}":`,
+            error
+          )
+        })
+    }
+
+    // Save migrated data at the current version, keeping a backup of the
+    // old data. Without a backup, the next write saves it instead.
+    if (needsWriteBack) {
+      needsWriteBack = false
+      const backedUp = await createMigrationBackup(storage, key, {
+        logger,
+        onBackup,
+        retention: backups,
+      })
+      if (backedUp) {
+        await write(a.get()).catch(() => {
+          // Already logged; the next write saves it at the current version
+        })
+      }
+    }
   })
 
   a.flush = async () => {
-    if (debouncer) {
-      clearTimeout(debouncer)
-      debouncer = undefined
-    }
+    cancelPendingWrite()
     await write(a.get())
   }
 
+  a.seed = (value: T) => {
+    // The listener that persists changes is only bound after hydration
+    if (!isHydrationComplete) baseSet(value)
+  }
+
   a.setAndFlush = async (next: T) => {
     isFlushing = true
     try {
@@ -277,5 +706,78 @@ export function persistentAtom<T>(
     }
   }
 
+  a.reset = async () => {
+    if (!isHydrationComplete) {
+      throw new Error(
+        `[persistentAtom] Cannot call .reset() before hydration complete. ` +
+          `Await atom.ready first.`
+      )
+    }
+    cancelPendingWrite()
+    queue.clear()
+    status.clearError()
+    history?.clear()
+    setSilently(initial)
+
+    if (isReadOnly) return // Leave the newer data in storage
+
+    if (storage.removeItem) {
+      // Let a write in progress finish first, so it can't recreate the value
+      await queue.idle()
+      lastRaw = undefined
+      lastData = undefined
+      await status.track(storage.removeItem(key))
+      metadata.set(undefined)
+      if (history) await storage.removeItem(historyKey)
+    } else {
+      // Adapters without removeItem fall back to storing the initial value
+      await write(initial)
+    }
+  }
+
+  // Applies a value from the history. It is persisted like any other change,
+  // but not recorded.
+  const timeTravel = (entry: P) => {
+    isTimeTravel = true
+    try {
+      a.set(restore(entry, a.get()))
+    } finally {
+      isTimeTravel = false
+    }
+  }
+
+  a.undo = () => {
+    if (!history?.canUndo.get()) return
+    timeTravel(history.undo(persisted(a.get())))
+  }
+
+  a.redo = () => {
+    if (!history?.canRedo.get()) return
+    timeTravel(history.redo(persisted(a.get())))
+  }
+
+  a.destroy = async ({ flush = true } = {}) => {
+    isDestroyed = true
+    unregister()
+    unbindListener?.()
+    unbindListener = undefined
+    unsubscribeStorage?.()
+    unsubscribeStorage = undefined
+
+    // A failed write counts as pending, so destroy() retries it
+    const hasPendingWrite = cancelPendingWrite() || queue.hasUnsaved
+    if (hasPendingWrite && flush) {
+      await write(a.get())
+    }
+    await queue.idle()
+  }
+
+  const unregister = registerStore({
+    key,
+    storage: storage.name,
+    version,
+    store: a,
+  })
+
   return a
 }
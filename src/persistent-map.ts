@@ -0,0 +1,610 @@
+import { map } from 'nanostores'
+import type { MapStore, ReadableAtom } from 'nanostores'
+import { jsonCodec } from './codec'
+import type { Codec } from './codec'
+import {
+  decodeEnvelope,
+  encodeEnvelope,
+  migrate,
+  migrateStored,
+  validate,
+} from './envelope'
+import type {
+  FutureVersionPolicy,
+  MigrationOptions,
+  VersionedData,
+} from './envelope'
+import { createWriteQueue } from './write-queue'
+import { emit } from './events'
+import type { Logger, PersistEvents } from './events'
+import { createStatusTracker } from './status'
+import type { PersistStatus } from './status'
+import type { RetryOptions } from './write-queue'
+import { createMigrationBackup, createStorageBackup } from './backups'
+import type { BackupOptions } from './backups'
+import { registerStore } from './registry'
+import { checkFingerprint, schemaFingerprint } from './fingerprint'
+import type { SchemaChangePolicy } from './fingerprint'
+import type { Migration, Schema, StorageAdapter } from './persistent-atom'
+
+export type MapOptions<T extends object> = {
+  key: string
+  storage: StorageAdapter
+  debounceMs?: number
+  /** Turns each versioned field value into a string and back. Defaults to `jsonCodec`. */
+  codec?: Codec
+  /** An object schema (e.g. `z.object(...)`); `setKey` validates against its `shape`. */
+  schema?: Schema<T> & { shape: { [K in keyof T]?: Schema<T[K]> } }
+  version?: number
+  /** Migrations receive and return the whole object, and may be async. */
+  migrations?: Record<number, Migration>
+  /** Schemas for older versions of the whole object, keyed by version. */
+  versionSchemas?: Record<number, Schema<unknown>>
+  /** Down-migrations for data written by a newer version, also on the whole object. */
+  downMigrations?: Record<number, Migration>
+  /** What to do with data written by a newer version. Defaults to `readonly`. */
+  onFutureVersion?: FutureVersionPolicy
+  /** What to do when fields were written with a different schema at the same version. Defaults to `warn`. */
+  onSchemaChange?: SchemaChangePolicy
+  onCorruption?: (error: Error) => Promise<T>
+  /** Retries failed writes with exponential backoff. */
+  retry?: RetryOptions
+  /** How many backups of each field to keep, and whether to back up data before it is migrated. */
+  backups?: BackupOptions
+  /** Stores a checksum of each field. Fields that don't match it are treated as corrupted. */
+  checksum?: boolean
+  /** Receives the log output. Defaults to `console`. */
+  logger?: Logger
+} & PersistEvents<T>
+
+export type PersistentMap<T extends object> = MapStore<T> & {
+  ready: Promise<void>
+  /** Whether the map is hydrating, waiting to be saved, saving or saved. */
+  status: ReadableAtom<PersistStatus>
+  flush: () => Promise<void>
+  setAndFlush: (next: T) => Promise<void>
+  /** Restores the initial value and deletes every stored field. */
+  reset: () => Promise<void>
+  /**
+   * Stops persisting the map: cancels the pending debounced write (writing it
+   * first unless `flush` is false) and unsubscribes from the map and the storage.
+   */
+  destroy: (options?: { flush?: boolean }) => Promise<void>
+  /**
+   * Uses `value` until hydration finishes, e.g. the value rendered on the
+   * server. Stored fields replace it; it is never written to storage.
+   * Does nothing once the map is hydrated.
+   */
+  seed: (value: T) => void
+}
+
+/**
+ * A persistent nanostores `map()`. Every field is stored under its own key
+ * (`${key}:${field}`) with its own version envelope, so `setKey` only writes
+ * the field that changed. It needs an adapter that stores many keys, so
+ * `createFileAdapter`, which keeps a single value per file, is rejected.
+ */
+export function persistentMap<T extends object>(
+  initial: T,
+  opts: MapOptions<T>
+): PersistentMap<T> {
+  if (!opts?.key) {
+    throw new Error('[persistentMap] Missing "key" option.')
+  }
+  if (!opts?.storage) {
+    throw new Error('[persistentMap] Missing "storage" option.')
+  }
+  // Adapters with a `filePath` keep a single value, unless they can list
+  // their keys, so every field would overwrite the others
+  if (opts.storage.filePath && !opts.storage.keys) {
+    throw new Error(
+      `[persistentMap] persistentMap needs an adapter that stores several keys, but ${opts.storage.name} keeps a single value. ` +
+        `Use createDocumentFileAdapter, or persistentAtom.`
+    )
+  }
+
+  const {
+    key,
+    storage,
+    debounceMs,
+    codec = jsonCodec,
+    schema,
+    version = 1,
+    migrations = {},
+    downMigrations = {},
+    versionSchemas = {},
+    onFutureVersion = 'readonly',
+    onSchemaChange = 'warn',
+    onCorruption,
+    retry,
+    backups,
+    checksum,
+    logger = console,
+    onHydrated,
+    onMigrated,
+    onWrite,
+    onWriteError,
+    onValidationError,
+    onBackup,
+  } = opts
+
+  type Field = keyof T & string
+
+  const fields = [
+    ...new Set([...Object.keys(initial), ...Object.keys(schema?.shape ?? {})]),
+  ] as Field[]
+  const fieldKey = (field: Field) => `${key}:${field}`
+
+  const m = map<T>(initial) as PersistentMap<T>
+  const status = createStatusTracker()
+  m.status = status.$status
+  let debouncer: NodeJS.Timeout | undefined
+  let isFlushing = false
+  let isHydrationComplete = false
+  // Set while the map is updated without persisting the new value
+  let isSilentUpdate = false
+  let isDestroyed = false
+  let unbindListener: (() => void) | undefined
+  const unsubscribeStorage: (() => void)[] = []
+  // Fields changed since they were last written
+  const dirty = new Set<Field>()
+  // The raw value of each field we last read from or wrote to storage
+  const lastRaw = new Map<Field, string | null | undefined>()
+  // Set while storage holds data from a newer version that must not be overwritten
+  let isReadOnly = false
+
+  const migrationOptions: MigrationOptions = {
+    version,
+    migrations,
+    downMigrations,
+    versionSchemas,
+    onFutureVersion,
+    key,
+    storage,
+    logger,
+  }
+
+  // Save the original methods before we override them
+  const baseSet = m.set.bind(m)
+  const baseSetKey = m.setKey.bind(m)
+
+  // Every field envelope stores the fingerprint of the whole object schema
+  const fingerprint = schema && schemaFingerprint(schema)
+
+  const writeField = async (field: Field, value: unknown) => {
+    if (value === undefined) {
+      lastRaw.set(field, undefined)
+      await storage.removeItem?.(fieldKey(field))
+      return
+    }
+    const raw = await encodeEnvelope(codec, version, value, {
+      fingerprint,
+      checksum,
+    })
+    lastRaw.set(field, raw)
+    await storage.setItem(fieldKey(field), raw)
+  }
+
+  const persistDirty = async () => {
+    if (isReadOnly) {
+      dirty.clear()
+      logger.warn(
+        `[persistentMap] Skipping write for key "${key}": storage holds data from a newer version.`
+      )
+      return
+    }
+    const pending = [...dirty]
+    dirty.clear()
+    const value = m.get()
+    try {
+      await Promise.all(pending.map((field) => writeField(field, value[field])))
+      status.saved()
+      emit(logger, onWrite, value)
+    } catch (error) {
+      // Keep the fields dirty so the next write or flush retries them
+      pending.forEach((field) => dirty.add(field))
+      emit(logger, onWriteError, error, value)
+      logger.error(
+        `[persistentMap] Failed to write to ${storage.name} for key "${key}":`,
+        error
+      )
+      throw error
+    }
+  }
+
+  // Writes run one at a time; a retry picks up every field still dirty
+  const queue = createWriteQueue<void>(persistDirty, {
+    ...retry,
+    onRetry: (_error, attempt, delayMs) => {
+      logger.warn(
+        `[persistentMap] Retrying write for key "${key}" in ${delayMs}ms (retry ${attempt} of ${retry?.retries})`
+      )
+    },
+  })
+  const writeDirty = () => status.track(queue.push())
+
+  const cancelPendingWrite = () => {
+    if (!debouncer) return false
+    clearTimeout(debouncer)
+    debouncer = undefined
+    status.setPending(false)
+    return true
+  }
+
+  const setSilently = (next: T) => {
+    isSilentUpdate = true
+    try {
+      baseSet(next)
+    } finally {
+      isSilentUpdate = false
+    }
+  }
+
+  // Migrations and validation always run on the whole object
+  const migrateAndValidate = async (
+    data: unknown,
+    dataVersion: number,
+    current: T
+  ): Promise<T> => {
+    const migrated = await migrateStored(data, dataVersion, migrationOptions)
+    let next: T
+    try {
+      next = validate(schema, migrated.data)
+    } catch (error) {
+      emit(logger, onValidationError, error, migrated.data)
+      if (!migrated.readOnly) throw error
+      // Newer data this version can't read: keep it stored, but don't use it
+      logger.warn(
+        `[persistentMap] Newer data for key "${key}" does not match the schema, keeping the current value.`
+      )
+      isReadOnly = true
+      return current
+    }
+    isReadOnly = migrated.readOnly
+    if (!isReadOnly && dataVersion !== version) {
+      emit(logger, onMigrated, dataVersion, version)
+    }
+    return next
+  }
+
+  // Fields are at different versions when a write-back was interrupted. Each
+  // migration step still runs on the whole object, but only changes the
+  // fields stored at an older version. Fields that were never stored hold
+  // current values. The version schemas describe whole objects at one
+  // version, so they can't check these steps; the schema checks the result.
+  const migrateFields = async (
+    data: T,
+    fieldVersions: Map<Field, number>,
+    fromVersion: number
+  ): Promise<T> => {
+    let current = data
+    for (let v = fromVersion + 1; v <= version; v++) {
+      const migrated = (await migrate(current, v - 1, {
+        ...migrationOptions,
+        version: v,
+        versionSchemas: {},
+      })) as T
+      const next = { ...migrated }
+      for (const field of fields) {
+        if ((fieldVersions.get(field) ?? version) >= v) {
+          next[field] = current[field]
+        }
+      }
+      current = next
+    }
+    return current
+  }
+
+  // Validates a value set by the caller
+  const validateInput = <V>(
+    inputSchema: Schema<V> | undefined,
+    data: unknown
+  ) => {
+    try {
+      return validate(inputSchema, data)
+    } catch (error) {
+      emit(logger, onValidationError, error, data)
+      throw error
+    }
+  }
+
+  // Update a field changed elsewhere, without writing it back.
+  // Changes are applied one at a time, in the order they arrive.
+  let externalChanges = Promise.resolve()
+  const applyExternalChange = (
+    field: Field,
+    raw: string | null | undefined
+  ) => {
+    externalChanges = externalChanges.then(async () => {
+      if (raw === lastRaw.get(field)) return
+      lastRaw.set(field, raw)
+
+      let next: T
+      try {
+        if (raw == null) {
+          next = await migrateAndValidate(
+            { ...m.get(), [field]: initial[field] },
+            version,
+            m.get()
+          )
+        } else {
+          const envelope = await decodeEnvelope(codec, raw)
+          let data: T = { ...m.get(), [field]: envelope.data }
+          let dataVersion = envelope.version
+          // Only the changed field is at the older version
+          if (dataVersion < version) {
+            data = await migrateFields(
+              data,
+              new Map([[field, dataVersion]]),
+              dataVersion
+            )
+            emit(logger, onMigrated, dataVersion, version)
+            dataVersion = version
+          }
+          next = await migrateAndValidate(data, dataVersion, m.get())
+        }
+      } catch (error) {
+        logger.error(
+          `[persistentMap] Ignoring invalid external change for key "${fieldKey(field)}" from ${storage.name}:`,
+          error
+        )
+        return
+      }
+
+      dirty.delete(field)
+      setSilently(next)
+    })
+  }
+
+  const assertHydrated = (method: string) => {
+    if (!isHydrationComplete) {
+      throw new Error(
+        `[persistentMap] Cannot call .${method}() before hydration complete. ` +
+          `Await map.ready first.`
+      )
+    }
+  }
+
+  m.set = (next: T) => {
+    assertHydrated('set')
+    baseSet(validateInput(schema, next))
+  }
+
+  m.setKey = (field, value) => {
+    assertHydrated('setKey')
+    const fieldSchema = schema?.shape[field as Field]
+    baseSetKey(field, validateInput(fieldSchema, value) as typeof value)
+  }
+
+  m.ready = (async () => {
+    try {
+      const raws = await Promise.all(
+        fields.map((field) => storage.getItem(fieldKey(field)))
+      )
+
+      const stored: Partial<T> = {}
+      const storedVersions: number[] = []
+      const fieldVersions = new Map<Field, number>()
+      const envelopes: VersionedData<unknown>[] = []
+      for (const [i, field] of fields.entries()) {
+        const raw = raws[i]
+        lastRaw.set(field, raw)
+        if (raw == null) continue
+
+        const envelope = await decodeEnvelope(codec, raw)
+        stored[field] = envelope.data as T[Field]
+        storedVersions.push(envelope.version)
+        fieldVersions.set(field, envelope.version)
+        envelopes.push(envelope)
+      }
+
+      // One warning for the map, not one per field
+      const changed = envelopes.find(
+        (envelope) =>
+          envelope.version === version &&
+          envelope.fingerprint != null &&
+          envelope.fingerprint !== fingerprint
+      )
+      if (changed) {
+        checkFingerprint(changed, {
+          key,
+          version,
+          fingerprint,
+          policy: onSchemaChange,
+          logger,
+          prefix: '[persistentMap]',
+        })
+      }
+
+      // Fields that were never stored keep their initial (or seeded) value
+      if (storedVersions.length > 0) {
+        let data = { ...m.get(), ...stored }
+        // Any field from a newer version makes the whole object newer
+        const newest = Math.max(...storedVersions)
+        const oldest = Math.min(...storedVersions)
+        let storedVersion = newest > version ? newest : oldest
+        // Unless every field is stored at one version, migrate each field
+        // from its own version
+        const isMixed = fields.some(
+          (field) => fieldVersions.get(field) !== oldest
+        )
+        if (newest <= version && oldest < version && isMixed) {
+          data = await migrateFields(data, fieldVersions, oldest)
+          emit(logger, onMigrated, oldest, version)
+          storedVersion = version
+        }
+        baseSet(await migrateAndValidate(data, storedVersion, m.get()))
+        // Save migrated fields at the current version
+        if (!isReadOnly) {
+          fieldVersions.forEach((fieldVersion, field) => {
+            if (fieldVersion !== version) dirty.add(field)
+          })
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `[persistentMap] Failed to hydrate map for key "${key}" with storage ${storage.name}:`,
+        error
+      )
+
+      for (const field of fields) {
+        await createStorageBackup(storage, fieldKey(field), {
+          logger,
+          onBackup,
+          retention: backups,
+        })
+      }
+
+      if (onCorruption) {
+        try {
+          const fallbackData = await onCorruption(error as Error)
+          logger.log(
+            `[persistentMap] Using fallback data from onCorruption handler`
+          )
+          baseSet(fallbackData)
+          fields.forEach((field) => dirty.add(field))
+          await writeDirty()
+          return // Successfully recovered
+        } catch (handlerError) {
+          logger.error(
+            '[persistentMap] onCorruption handler failed:',
+            handlerError
+          )
+        }
+      }
+
+      status.hydrationFailed(error)
+      throw error
+    }
+  })().then(async () => {
+    isHydrationComplete = true
+    status.hydrated()
+    emit(logger, onHydrated, m.get())
+    if (isDestroyed) return
+    unbindListener = m.listen((value, oldValue, changedKey) => {
+      if (isSilentUpdate) return
+      if (changedKey !== undefined) {
+        dirty.add(changedKey as Field)
+      } else {
+        for (const field of fields) {
+          if (value[field] !== oldValue?.[field]) dirty.add(field)
+        }
+      }
+      if (isFlushing) return
+
+      if (debouncer) clearTimeout(debouncer)
+      const run = () => {
+        debouncer = undefined
+        writeDirty().catch(() => {
+          // Already logged; the fields stay dirty for the next flush
+        })
+        // After the write started, so the status goes straight to saving
+        status.setPending(false)
+      }
+      if (debounceMs == null) run()
+      else {
+        status.setPending(true)
+        debouncer = setTimeout(run, debounceMs)
+      }
+    })
+    if (storage.subscribe) {
+      for (const field of fields) {
+        unsubscribeStorage.push(
+          storage.subscribe(fieldKey(field), (raw) =>
+            applyExternalChange(field, raw)
+          )
+        )
+      }
+    }
+
+    // Save migrated fields at the current version, keeping a backup of the
+    // old data. Without a backup, the next write saves them instead.
+    if (dirty.size > 0) {
+      let backedUp = true
+      for (const field of dirty) {
+        backedUp &&= await createMigrationBackup(storage, fieldKey(field), {
+          logger,
+          onBackup,
+          retention: backups,
+        })
+      }
+      if (backedUp) {
+        await writeDirty().catch(() => {
+          // Already logged; the fields stay dirty for the next flush
+        })
+      }
+    }
+  })
+
+  m.flush = async () => {
+    cancelPendingWrite()
+    await writeDirty()
+  }
+
+  m.seed = (value: T) => {
+    // The listener that marks fields dirty is only bound after hydration
+    if (!isHydrationComplete) baseSet(value)
+  }
+
+  m.setAndFlush = async (next: T) => {
+    isFlushing = true
+    try {
+      m.set(next)
+      await m.flush()
+    } finally {
+      isFlushing = false
+    }
+  }
+
+  m.reset = async () => {
+    assertHydrated('reset')
+    cancelPendingWrite()
+    queue.clear()
+    status.clearError()
+    setSilently(initial)
+    dirty.clear()
+
+    if (isReadOnly) return // Leave the newer data in storage
+
+    if (storage.removeItem) {
+      // Let a write in progress finish first, so it can't recreate fields
+      await queue.idle()
+      await status.track(
+        Promise.all(
+          fields.map((field) => {
+            lastRaw.set(field, undefined)
+            return storage.removeItem!(fieldKey(field))
+          })
+        ).then(() => {})
+      )
+    } else {
+      // Adapters without removeItem fall back to storing the initial value
+      fields.forEach((field) => dirty.add(field))
+      await writeDirty()
+    }
+  }
+
+  m.destroy = async ({ flush = true } = {}) => {
+    isDestroyed = true
+    unregister()
+    unbindListener?.()
+    unbindListener = undefined
+    unsubscribeStorage.splice(0).forEach((unsubscribe) => unsubscribe())
+
+    // Fields whose write failed are still dirty, so destroy() retries them
+    const hasPendingWrite = cancelPendingWrite() || dirty.size > 0
+    if (hasPendingWrite && flush) {
+      await writeDirty()
+    }
+    await queue.idle()
+  }
+
+  const unregister = registerStore({
+    key,
+    storage: storage.name,
+    version,
+    store: m,
+  })
+
+  return m
+}
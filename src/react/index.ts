@@ -1 +1,6 @@
-export { useAtom } from './react-hook'
+export { useAtom, useHydratedAtom, usePersistStatus } from './react-hook'
+export type { PersistentStore } from './react-hook'
+export { PersistGate } from './persist-gate'
+export type { PersistGateProps } from './persist-gate'
+export { dehydrateStores, seedStores } from './ssr'
+export type { DehydratedState } from './ssr'
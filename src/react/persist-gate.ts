@@ -0,0 +1,69 @@
+import type { PersistentStore } from './react-hook'
+import { getSeed } from './ssr'
+import {
+  createElement,
+  Fragment,
+  useCallback,
+  useSyncExternalStore,
+} from 'react'
+import type { ReactNode } from 'react'
+import type { PersistStatus } from '~/status'
+
+export type PersistGateProps = {
+  /** The persistent atoms and maps the children need. */
+  stores: PersistentStore<unknown>[]
+  /** Rendered until every store is hydrated. Defaults to nothing. */
+  loading?: ReactNode
+  /** Rendered if a store fails to hydrate. Defaults to nothing. */
+  error?: ReactNode | ((error: unknown) => ReactNode)
+  children?: ReactNode
+}
+
+// The status of the first store that isn't hydrated yet, or null once all
+// are. Seeded stores count as hydrated unless their hydration failed.
+const firstUnhydrated = (
+  stores: PersistentStore<unknown>[]
+): PersistStatus | null => {
+  for (const store of stores) {
+    const status = store.status.get()
+    if (status.hydrated) continue
+    if (getSeed(store) !== undefined && status.state !== 'error') continue
+    return status
+  }
+  return null
+}
+
+/**
+ * Renders `children` once every store is hydrated, `loading` before that and
+ * `error` if a store fails to hydrate.
+ *
+ * Seeded stores (see `seedStores`) count as hydrated until their stored value
+ * is loaded, so the children render the seeded values meanwhile and the
+ * server-rendered markup stays in place.
+ */
+export function PersistGate({
+  stores,
+  loading = null,
+  error = null,
+  children,
+}: PersistGateProps) {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const unbinds = stores.map((store) => store.status.listen(onChange))
+      return () => unbinds.forEach((unbind) => unbind())
+    },
+    [stores]
+  )
+  const getSnapshot = () => firstUnhydrated(stores)
+  const pending = useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+
+  if (!pending) return createElement(Fragment, null, children)
+  if (pending.state === 'error') {
+    return createElement(
+      Fragment,
+      null,
+      typeof error === 'function' ? error(pending.error) : error
+    )
+  }
+  return createElement(Fragment, null, loading)
+}
@@ -1,40 +1,80 @@
 import { PersistentAtom } from '~/persistent-atom'
+import { PersistStatus } from '~/status'
+import { getSeed } from './ssr'
 import { useStore } from '@nanostores/react'
 import { ReadableAtom } from 'nanostores'
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react'
+
+/**
+ * What the hooks need from a store created by `persistentAtom` or
+ * `persistentMap`.
+ */
+export type PersistentStore<T> = ReadableAtom<T> &
+  Pick<PersistentAtom<T>, 'ready' | 'status' | 'flush'> & {
+    seed(value: T): void
+  }
 
 /**
  * A type guard to check if an atom is a PersistentAtom.
  * It now accepts any ReadableAtom.
  */
-function isPersistentAtom<T>(atom: ReadableAtom<T>): atom is PersistentAtom<T> {
+function isPersistentAtom<T>(
+  atom: ReadableAtom<T>
+): atom is PersistentStore<T> {
   // The check remains the same: we just look for the .ready promise.
   return 'ready' in atom
 }
 
+/**
+ * Whether `atom` can be rendered. Seeded stores count as hydrated until their
+ * stored value is loaded, unless loading it fails.
+ */
+function useIsHydrated<T>(atom: ReadableAtom<T>) {
+  const subscribe = useCallback(
+    (onChange: () => void) =>
+      isPersistentAtom(atom) ? atom.status.listen(onChange) : () => {},
+    [atom]
+  )
+  const getSnapshot = () => {
+    if (!isPersistentAtom(atom)) return true
+    const { hydrated, state } = atom.status.get()
+    return hydrated || (getSeed(atom) !== undefined && state !== 'error')
+  }
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+}
+
 /**
  * A smart hook that subscribes to any atom (writable or computed)
  * and automatically handles hydration for persistent atoms.
  *
+ * During server rendering and React hydration it returns the value seeded
+ * with `seedStores`, so the client's first render matches the server's.
+ *
  * @param atom The Nanostores atom to use.
  * @returns An object with the atom's `value` and its `isHydrated` status.
  */
 export function useAtom<T>(atom: ReadableAtom<T>) {
-  const value = useStore(atom)
-  const [isHydrated, setIsHydrated] = useState(!isPersistentAtom(atom))
+  const subscribe = useCallback(
+    (onChange: () => void) => atom.listen(onChange),
+    [atom]
+  )
+  const value = useSyncExternalStore(
+    subscribe,
+    () => atom.get(),
+    () => {
+      const seed = getSeed(atom)
+      return seed ? (seed.value as T) : atom.get()
+    }
+  )
+  const isHydrated = useIsHydrated(atom)
   const [error, setError] = useState<Error | null>(null)
 
   useEffect(() => {
     if (isPersistentAtom(atom)) {
-      atom.ready
-        .then(() => {
-          // We can set the state directly once the promise resolves.
-          setIsHydrated(true)
-        })
-        .catch((error) => {
-          if (error instanceof Error) setError(error)
-          else setError(error != null ? new Error(String(error)) : null)
-        })
+      atom.ready.catch((error) => {
+        if (error instanceof Error) setError(error)
+        else setError(error != null ? new Error(String(error)) : null)
+      })
 
       // Cleanup: flush pending writes on unmount
       return () => {
@@ -47,3 +87,36 @@ export function useAtom<T>(atom: ReadableAtom<T>) {
 
   return { value, isHydrated, error }
 }
+
+/**
+ * Like `useAtom`, but suspends until the atom is hydrated, so the nearest
+ * `<Suspense>` boundary shows its fallback meanwhile. If hydration fails,
+ * the error is thrown to the nearest error boundary.
+ *
+ * @param atom A store created by `persistentAtom` or `persistentMap`.
+ * @returns The hydrated value.
+ */
+export function useHydratedAtom<T>(atom: PersistentStore<T>): T {
+  const { value, isHydrated } = useAtom(atom)
+  if (!isHydrated) {
+    const { state, error } = atom.status.get()
+    if (state === 'error') throw error
+    // Suspense waits for a thrown promise and renders again once it settles
+    // eslint-disable-next-line @typescript-eslint/only-throw-error
+    throw atom.ready
+  }
+  return value
+}
+
+/**
+ * Subscribes to the persistence status of a persistent atom or map, e.g. to
+ * show "Saving…", "Saved 2s ago" or "Failed to save".
+ *
+ * @param store A store created by `persistentAtom` or `persistentMap`.
+ * @returns The current `PersistStatus`.
+ */
+export function usePersistStatus(store: {
+  status: ReadableAtom<PersistStatus>
+}): PersistStatus {
+  return useStore(store.status)
+}
@@ -0,0 +1,54 @@
+import type { PersistentStore } from './react-hook'
+
+/** The hydrated values of persistent stores, by the names they were passed with. */
+export type DehydratedState = Record<string, unknown>
+
+// The values seeded into each store, rendered while React hydrates the
+// server-rendered markup
+const seeds = new WeakMap<object, { value: unknown }>()
+
+/** The value seeded into `store` by `seedStores`, if any. */
+export const getSeed = (store: object) => seeds.get(store)
+
+/**
+ * Waits for every store to hydrate on the server and returns their values,
+ * to be sent to the client along with the rendered markup. Stores that fail
+ * to hydrate are left out, so the client loads them itself.
+ *
+ * @param stores The persistent atoms and maps used while rendering, by name.
+ */
+export async function dehydrateStores(
+  stores: Record<string, PersistentStore<unknown>>
+): Promise<DehydratedState> {
+  const entries = Object.entries(stores)
+  const results = await Promise.allSettled(
+    entries.map(([, store]) => store.ready)
+  )
+
+  const state: DehydratedState = {}
+  results.forEach((result, i) => {
+    const [name, store] = entries[i]
+    if (result.status === 'fulfilled') state[name] = store.get()
+  })
+  return state
+}
+
+/**
+ * Seeds the stores on the client with the values from `dehydrateStores`, so
+ * the first render matches the server-rendered markup. Call it before
+ * hydrating the React root. Each store switches to its stored value once it
+ * is hydrated; seeded values are never written to storage.
+ *
+ * @param stores The same stores, by the same names, as on the server.
+ * @param state The values returned by `dehydrateStores`.
+ */
+export function seedStores(
+  stores: Record<string, PersistentStore<unknown>>,
+  state: DehydratedState
+) {
+  for (const [name, store] of Object.entries(stores)) {
+    if (!Object.prototype.hasOwnProperty.call(state, name)) continue
+    seeds.set(store, { value: state[name] })
+    store.seed(state[name])
+  }
+}
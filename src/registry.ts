@@ -0,0 +1,165 @@
+import type { ReadableAtom } from 'nanostores'
+import type { Logger } from './events'
+import type { PersistStatus } from './status'
+
+export type PersistedStoreInfo = {
+  /** The storage key, or the key prefix of a persistent map. */
+  key: string
+  /** The `name` of the storage adapter. */
+  storage: string
+  /** The data version written by the store. */
+  version: number
+  /** True while there are changes that are not in storage yet. */
+  dirty: boolean
+}
+
+type RegisteredStore = {
+  key: string
+  storage: string
+  version: number
+  store: {
+    ready: Promise<void>
+    status: ReadableAtom<PersistStatus>
+    flush: () => Promise<void>
+  }
+}
+
+// Every persistent atom and map that was created and not destroyed
+const registry = new Set<RegisteredStore>()
+
+/** Adds a store to the registry. Returns a function that removes it. */
+export function registerStore(entry: RegisteredStore) {
+  registry.add(entry)
+  return () => {
+    registry.delete(entry)
+  }
+}
+
+/** Lists every persistent atom and map that was created and not destroyed. */
+export function listAtoms(): PersistedStoreInfo[] {
+  return [...registry].map(({ key, storage, version, store }) => ({
+    key,
+    storage,
+    version,
+    dirty: store.status.get().dirty,
+  }))
+}
+
+/** Waits until every persistent atom and map is hydrated. */
+export async function readyAll() {
+  await Promise.all([...registry].map(({ store }) => store.ready))
+}
+
+/**
+ * Writes the unsaved changes of every persistent atom and map, including
+ * debounced writes that haven't started yet. Stores that aren't hydrated are
+ * skipped, so their stored value is never overwritten. Rejects with the first
+ * error once every write has settled.
+ */
+export async function flushAll() {
+  const results = await Promise.allSettled(
+    [...registry]
+      .filter(({ store }) => {
+        const { hydrated, dirty } = store.status.get()
+        return hydrated && dirty
+      })
+      .map(({ store }) => store.flush())
+  )
+  const failed = results.find((result) => result.status === 'rejected')
+  if (failed) throw failed.reason
+}
+
+type Signal = 'SIGINT' | 'SIGTERM' | 'SIGHUP'
+
+type ProcessLike = {
+  pid: number
+  on(event: string, listener: (...args: unknown[]) => void): unknown
+  off(event: string, listener: (...args: unknown[]) => void): unknown
+  listenerCount(event: string): number
+  kill(pid: number, signal: string): unknown
+}
+
+type EventTargetLike = {
+  addEventListener(type: string, listener: () => void): void
+  removeEventListener(type: string, listener: () => void): void
+}
+
+export type FlushOnExitOptions = {
+  /** Node.js signals to flush on before the process exits. Defaults to SIGINT and SIGTERM. */
+  signals?: Signal[]
+  /** Where failed flushes are logged. Defaults to `console`. */
+  logger?: Logger
+}
+
+/**
+ * Flushes every persistent atom and map before the process exits or the page
+ * is closed: on `beforeExit` and the given signals in Node.js and Electron,
+ * and on `pagehide` and `visibilitychange` (when the page is hidden) in
+ * browsers. Returns a function that removes the handlers.
+ *
+ * After flushing on a signal, the process exits as it would have without the
+ * handler, unless other listeners handle the signal.
+ */
+export function flushOnExit({
+  signals = ['SIGINT', 'SIGTERM'],
+  logger = console,
+}: FlushOnExitOptions = {}): () => void {
+  const cleanups: (() => void)[] = []
+  const flush = () =>
+    flushAll().catch((error) => {
+      logger.error('[persistentAtom] Failed to flush before exit:', error)
+      throw error
+    })
+
+  const proc = (globalThis as { process?: Partial<ProcessLike> }).process
+  if (typeof proc?.on === 'function') {
+    const node = proc as ProcessLike
+
+    const onBeforeExit = () => {
+      // Writes keep the process alive, so beforeExit fires again after them.
+      // Stop after a failure, or it would retry forever.
+      flush().catch(() => node.off('beforeExit', onBeforeExit))
+    }
+    node.on('beforeExit', onBeforeExit)
+    cleanups.push(() => node.off('beforeExit', onBeforeExit))
+
+    for (const signal of signals) {
+      const onSignal = () => {
+        node.off(signal, onSignal)
+        void flush()
+          .catch(() => {
+            // Already logged; exit anyway
+          })
+          .then(() => {
+            // Exit with the signal, as if there had been no handler
+            if (node.listenerCount(signal) === 0) node.kill(node.pid, signal)
+          })
+      }
+      node.on(signal, onSignal)
+      cleanups.push(() => node.off(signal, onSignal))
+    }
+  }
+
+  const target = globalThis as Partial<EventTargetLike> & {
+    document?: EventTargetLike & { visibilityState?: string }
+  }
+  if (typeof target.addEventListener === 'function' && target.document) {
+    const window = target as EventTargetLike
+    const document = target.document
+
+    const onPageHide = () => {
+      void flush().catch(() => {})
+    }
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') onPageHide()
+    }
+    window.addEventListener('pagehide', onPageHide)
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    cleanups.push(() => {
+      window.removeEventListener('pagehide', onPageHide)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    })
+  }
+
+  return () => cleanups.forEach((cleanup) => cleanup())
+}
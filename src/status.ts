@@ -0,0 +1,122 @@
+import { atom } from 'nanostores'
+import type { ReadableAtom } from 'nanostores'
+
+/**
+ * - `hydrating`: the stored value is being loaded
+ * - `idle`: everything is saved
+ * - `pending`: a change waits for the debounce timer
+ * - `saving`: a write is in progress
+ * - `error`: hydration or the last write failed
+ */
+export type PersistState = 'hydrating' | 'idle' | 'pending' | 'saving' | 'error'
+
+export type PersistStatus = {
+  state: PersistState
+  /** True once the stored value was loaded, or replaced by `onCorruption`. */
+  hydrated: boolean
+  /** True while there are changes that are not in storage yet. */
+  dirty: boolean
+  /** When a value was last written to storage, as returned by `Date.now()`. */
+  lastSavedAt: number | undefined
+  /** Why hydration or the last write failed, until a write succeeds. */
+  error: unknown
+}
+
+export type StatusTracker = {
+  $status: ReadableAtom<PersistStatus>
+  hydrated: () => void
+  hydrationFailed: (error: unknown) => void
+  setPending: (pending: boolean) => void
+  /** Reports `write` as saving until it settles. Returns `write`. */
+  track: (write: Promise<void>) => Promise<void>
+  saved: () => void
+  /** Forgets a failed write, e.g. after the value was replaced or reset. */
+  clearError: () => void
+}
+
+// Keeps the status atom of a persistent store up to date
+export function createStatusTracker(): StatusTracker {
+  let isHydrating = true
+  let hasHydrated = false
+  let isPending = false
+  let writesInProgress = 0
+  let hasFailed = false
+  let lastError: unknown
+  let lastSavedAt: number | undefined
+
+  const compute = (): PersistStatus => ({
+    state: isHydrating
+      ? 'hydrating'
+      : writesInProgress > 0
+        ? 'saving'
+        : isPending
+          ? 'pending'
+          : hasFailed
+            ? 'error'
+            : 'idle',
+    hydrated: hasHydrated,
+    dirty: isPending || writesInProgress > 0 || hasFailed,
+    lastSavedAt,
+    error: lastError,
+  })
+
+  const $status = atom(compute())
+
+  const update = () => {
+    const current = $status.get()
+    const next = compute()
+    const changed = (Object.keys(next) as (keyof PersistStatus)[]).some(
+      (field) => next[field] !== current[field]
+    )
+    if (changed) $status.set(next)
+  }
+
+  return {
+    $status,
+    hydrated() {
+      isHydrating = false
+      hasHydrated = true
+      update()
+    },
+    hydrationFailed(error) {
+      isHydrating = false
+      hasFailed = true
+      lastError = error
+      update()
+    },
+    setPending(pending) {
+      isPending = pending
+      update()
+    },
+    track(write) {
+      writesInProgress++
+      update()
+      // Registered before the caller awaits `write`, so the status is
+      // up to date when the caller continues
+      void write.then(
+        () => {
+          writesInProgress--
+          hasFailed = false
+          lastError = undefined
+          update()
+        },
+        (error) => {
+          writesInProgress--
+          hasFailed = true
+          lastError = error
+          update()
+        }
+      )
+      return write
+    },
+    saved() {
+      lastSavedAt = Date.now()
+      update()
+    },
+    clearError() {
+      hasFailed = false
+      lastError = undefined
+      update()
+    },
+  }
+}
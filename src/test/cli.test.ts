@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { schemaFingerprint } from '../index'
+import { run } from '../cli'
+import { tasks } from './fixtures/cli-definitions'
+import { diffLines, formatIssues } from '../cli/store'
+import { dataChecksum } from '../envelope'
+
+const definitions = path.join(__dirname, 'fixtures', 'cli-definitions.ts')
+
+describe('zod-persist CLI', () => {
+  let dir: string
+  let filePath: string
+  let output: { log: string[]; error: string[] }
+  const out = {
+    log: (line: string) => output.log.push(line),
+    error: (line: string) => output.error.push(line),
+  }
+  const cli = (...args: string[]) => run(args, out)
+  const store = (data: unknown, version: number) =>
+    fs.writeFile(filePath, JSON.stringify({ version, data }))
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zod-persist-cli-'))
+    filePath = path.join(dir, 'tasks.json')
+    output = { log: [], error: [] }
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should print the stored version and data', async () => {
+    await store(['Write tests'], 1)
+
+    expect(await cli('inspect', filePath)).toBe(0)
+    expect(output.log).toEqual([
+      `File:     ${filePath}`,
+      'Version:  1',
+      'Data:',
+      '  [',
+      '    "Write tests"',
+      '  ]',
+    ])
+  })
+
+  it('should show data that does not match its checksum', async () => {
+    const checksum = dataChecksum(['Write tests'])
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ version: 1, data: ['Edited'], checksum })
+    )
+
+    expect(await cli('inspect', filePath)).toBe(0)
+    expect(output.log).toEqual([
+      `File:     ${filePath}`,
+      'Version:  1',
+      `Checksum: ${checksum} (does not match: expected ${checksum}, got ${dataChecksum(['Edited'])})`,
+      'Data:',
+      '  [',
+      '    "Edited"',
+      '  ]',
+    ])
+  })
+
+  it('should validate the stored data and its migration', async () => {
+    await store(['Write tests'], 1)
+
+    expect(
+      await cli('validate', filePath, '-d', definitions, '-a', 'tasks')
+    ).toBe(0)
+    expect(output.log).toEqual([
+      '✔ Stored data matches the schema for version 1',
+      '✔ Migrates from version 1 to 2',
+    ])
+  })
+
+  it('should report readable validation issues', async () => {
+    await store([{ title: 'Write tests', done: 'no' }], 2)
+
+    expect(
+      await cli('validate', filePath, '-d', definitions, '-a', 'tasks')
+    ).toBe(1)
+    expect(output.error).toEqual([
+      '✖ Stored data does not match the schema for version 2:',
+      '  ✖ Invalid input: expected boolean, received string → at [0].done',
+    ])
+  })
+
+  it('should ask which definition to use', async () => {
+    await store(['Write tests'], 1)
+
+    expect(await cli('validate', filePath, '-d', definitions)).toBe(1)
+    expect(output.error).toEqual([
+      'Error: the module exports several atom definitions, pick one with --atom: tasks, theme',
+    ])
+  })
+
+  it('should dry-run the migrations and show the diff', async () => {
+    await store(['Write tests'], 1)
+
+    expect(
+      await cli('migrate', filePath, '-d', definitions, '-a', 'tasks')
+    ).toBe(0)
+    expect(output.log).toEqual([
+      'Migrating from version 1 to 2:',
+      '  [',
+      '-   "Write tests"',
+      '+   {',
+      '+     "title": "Write tests",',
+      '+     "done": false',
+      '+   }',
+      '  ]',
+      '',
+      'Dry run, nothing was written. Run with --write to save it.',
+    ])
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({
+      version: 1,
+      data: ['Write tests'],
+    })
+  })
+
+  it('should check the stored data before migrating, like hydration', async () => {
+    await store([42], 1)
+
+    expect(
+      await cli('migrate', filePath, '-d', definitions, '-a', 'tasks')
+    ).toBe(1)
+    expect(output.error).toEqual([
+      '✖ Stored data does not match the schema for version 1:',
+      '  ✖ Invalid input: expected string, received number → at [0]',
+    ])
+  })
+
+  it('should write the migrated data and restore the backup', async () => {
+    await store(['Write tests'], 1)
+
+    const args = ['-d', definitions, '-a', 'tasks', '--write']
+    expect(await cli('migrate', filePath, ...args)).toBe(0)
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({
+      version: 2,
+      data: [{ title: 'Write tests', done: false }],
+      fingerprint: schemaFingerprint(tasks.schema!),
+    })
+
+    output = { log: [], error: [] }
+    expect(await cli('backups', filePath)).toBe(0)
+    expect(output.log).toHaveLength(1)
+    const backup = output.log[0].split('  ')[1]
+
+    // Backups are named by the millisecond they were created in
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    expect(await cli('restore', filePath, backup)).toBe(0)
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({
+      version: 1,
+      data: ['Write tests'],
+    })
+  })
+
+  it('should reject invalid arguments', async () => {
+    expect(await cli('migrate', filePath)).toBe(2)
+    expect(await cli('unknown', filePath)).toBe(2)
+    expect(await cli('inspect', filePath, '--unknown')).toBe(2)
+  })
+})
+
+describe('diffLines', () => {
+  it('should mark removed and added lines', () => {
+    expect(diffLines({ a: 1, b: 2 }, { a: 1, b: 3 })).toEqual([
+      '  {',
+      '    "a": 1,',
+      '-   "b": 2',
+      '+   "b": 3',
+      '  }',
+    ])
+  })
+
+  it('should show large changes as removed and added', () => {
+    const before = Array.from({ length: 1500 }, (_, i) => i)
+    const lines = diffLines(before, [...before].reverse())
+
+    expect(lines).toHaveLength(3002)
+    expect(lines.slice(0, 2)).toEqual(['  [', '-   0,'])
+    expect(lines.slice(1501, 1503)).toEqual(['+   1499,', '+   1498,'])
+    expect(lines[3001]).toBe('  ]')
+  })
+})
+
+describe('formatIssues', () => {
+  it('should show where each issue is', () => {
+    expect(
+      formatIssues([
+        { path: ['tasks', 0, 'title'], message: 'Required' },
+        { path: [], message: 'Invalid input' },
+      ])
+    ).toEqual(['✖ Required → at tasks[0].title', '✖ Invalid input'])
+  })
+})
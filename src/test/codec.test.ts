@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+
+import { jsonCodec, richJsonCodec, pipeCodec, gzip, deflate } from '../codec'
+
+describe('codecs', () => {
+  describe('richJsonCodec', () => {
+    it('should round-trip rich types at any depth', () => {
+      const value = {
+        date: new Date('2025-10-23T12:00:00.000Z'),
+        map: new Map<string, unknown>([
+          ['nested', new Set([new Date(0), 2n ** 64n])],
+        ]),
+        list: [undefined, 1, 'two'],
+        missing: undefined,
+        plain: { a: [1, { b: null }] },
+      }
+
+      const decoded = richJsonCodec.decode(
+        richJsonCodec.encode(value) as string
+      )
+
+      expect(decoded).toEqual(value)
+      expect(Object.keys(decoded as object)).toContain('missing')
+    })
+
+    it('should read plain JSON', () => {
+      expect(richJsonCodec.decode('{"version":1,"data":[1,2]}')).toEqual({
+        version: 1,
+        data: [1, 2],
+      })
+    })
+  })
+
+  describe('compression', () => {
+    it.each([
+      ['gzip', gzip],
+      ['deflate', deflate],
+    ])('should compress and decompress with %s', async (format, transform) => {
+      const codec = pipeCodec(jsonCodec, transform())
+      const value = { version: 1, data: 'x'.repeat(10_000) }
+
+      const encoded = await codec.encode(value)
+
+      expect(encoded.startsWith(`${format}:`)).toBe(true)
+      expect(encoded.length).toBeLessThan(1000)
+      expect(await codec.decode(encoded)).toEqual(value)
+    })
+
+    it('should read values written before compression was enabled', async () => {
+      const codec = pipeCodec(jsonCodec, gzip())
+      expect(await codec.decode('{"version":1,"data":"plain"}')).toEqual({
+        version: 1,
+        data: 'plain',
+      })
+    })
+  })
+
+  describe('pipeCodec', () => {
+    it('should apply transforms in order and reverse them on decode', async () => {
+      const calls: string[] = []
+      const step = (name: string) => ({
+        encode: (input: string) => {
+          calls.push(`encode ${name}`)
+          return `${name}(${input})`
+        },
+        decode: (input: string) => {
+          calls.push(`decode ${name}`)
+          return input.slice(name.length + 1, -1)
+        },
+      })
+      const codec = pipeCodec(jsonCodec, step('a'), step('b'))
+
+      const encoded = await codec.encode(1)
+      expect(encoded).toBe('b(a(1))')
+      expect(await codec.decode(encoded)).toBe(1)
+      expect(calls).toEqual(['encode a', 'encode b', 'decode b', 'decode a'])
+    })
+  })
+})
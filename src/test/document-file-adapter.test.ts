@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { z } from 'zod'
+
+import { persistentAtom, schemaFingerprint } from '../index'
+import { createDocumentFileAdapter } from '../adapters/document-file-adapter'
+
+describe('createDocumentFileAdapter', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zod-persist-'))
+    filePath = path.join(dir, 'store.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should store several keys in one file', async () => {
+    const adapter = createDocumentFileAdapter(filePath)
+    await adapter.setItem('settings', '{"version":1,"data":{"theme":"dark"}}')
+    await adapter.setItem('tasks', '{"version":2,"data":[]}')
+
+    expect(await adapter.getItem('settings')).toBe(
+      '{"version":1,"data":{"theme":"dark"}}'
+    )
+    expect(await adapter.getItem('tasks')).toBe('{"version":2,"data":[]}')
+    expect(await adapter.getItem('missing')).toBeUndefined()
+
+    const doc = JSON.parse(await fs.readFile(filePath, 'utf8')) as unknown
+    expect(doc).toEqual({
+      settings: '{"version":1,"data":{"theme":"dark"}}',
+      tasks: '{"version":2,"data":[]}',
+    })
+  })
+
+  it('should keep keys written by another adapter instance', async () => {
+    const processA = createDocumentFileAdapter(filePath)
+    const processB = createDocumentFileAdapter(filePath)
+
+    await processA.getItem('a') // Populate A's cache with an empty document
+    await processB.setItem('b', '"from b"')
+    await processA.setItem('a', '"from a"')
+
+    const fresh = createDocumentFileAdapter(filePath)
+    expect(await fresh.getItem('a')).toBe('"from a"')
+    expect(await fresh.getItem('b')).toBe('"from b"')
+  })
+
+  it('should remove a single key', async () => {
+    const adapter = createDocumentFileAdapter(filePath)
+    await adapter.setItem('settings', '"dark"')
+    await adapter.setItem('tasks', '[]')
+    await adapter.removeItem!('settings')
+
+    const fresh = createDocumentFileAdapter(filePath)
+    expect(await fresh.getItem('settings')).toBeUndefined()
+    expect(await fresh.getItem('tasks')).toBe('[]')
+    expect(await fresh.keys!()).toEqual(['tasks'])
+  })
+
+  it('should accept hand-edited JSON entries', async () => {
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ settings: { version: 1, data: { theme: 'light' } } })
+    )
+    const adapter = createDocumentFileAdapter(filePath)
+
+    expect(await adapter.getItem('settings')).toBe(
+      '{"version":1,"data":{"theme":"light"}}'
+    )
+  })
+
+  it('should back up a corrupted document before rewriting it', async () => {
+    await fs.writeFile(filePath, '{"settings": "trunc')
+    const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const adapter = createDocumentFileAdapter(filePath, { logger })
+
+    await expect(adapter.getItem('settings')).rejects.toThrow()
+    await adapter.setItem('settings', '"fresh"')
+
+    expect(await adapter.getItem('settings')).toBe('"fresh"')
+    const files = await fs.readdir(dir)
+    expect(files.some((file) => file.endsWith('.bak'))).toBe(true)
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('is corrupted, rewriting it'),
+      expect.any(Error)
+    )
+    expect(logger.log).toHaveBeenCalledWith(
+      expect.stringContaining('Created backup at:')
+    )
+  })
+
+  it('should only notify subscribers of keys that changed elsewhere', async () => {
+    const watcher = createDocumentFileAdapter(filePath)
+    const writer = createDocumentFileAdapter(filePath)
+    const onSettings = vi.fn()
+    const onTasks = vi.fn()
+    const unsubscribeSettings = watcher.subscribe!('settings', onSettings)
+    const unsubscribeTasks = watcher.subscribe!('tasks', onTasks)
+
+    await writer.setItem('settings', '"dark"')
+    await vi.waitFor(() => expect(onSettings).toHaveBeenCalledWith('"dark"'))
+    expect(onTasks).not.toHaveBeenCalled()
+    expect(await watcher.getItem('settings')).toBe('"dark"')
+
+    unsubscribeSettings()
+    unsubscribeTasks()
+  })
+
+  it('should notify subscribers of changes made elsewhere during a write', async () => {
+    const adapter = createDocumentFileAdapter(filePath)
+    await adapter.setItem('b', '"b0"')
+    const onB = vi.fn()
+    const unsubscribe = adapter.subscribe!('b', onB)
+
+    await fs.writeFile(filePath, JSON.stringify({ b: '"b-external"' }))
+    await adapter.setItem('a', '"a1"')
+
+    await vi.waitFor(() => expect(onB).toHaveBeenCalledWith('"b-external"'))
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({
+      a: '"a1"',
+      b: '"b-external"',
+    })
+    unsubscribe()
+  })
+
+  it('should let several persistent atoms share one file', async () => {
+    const storage = createDocumentFileAdapter(filePath)
+    const schema = z.object({ theme: z.string() })
+    const $settings = persistentAtom(
+      { theme: 'light' },
+      { key: 'settings', storage, schema }
+    )
+    const $tasks = persistentAtom<string[]>([], {
+      key: 'tasks',
+      storage,
+      version: 2,
+    })
+    await Promise.all([$settings.ready, $tasks.ready])
+
+    await $settings.setAndFlush({ theme: 'dark' })
+    await $tasks.setAndFlush(['write tests'])
+
+    const reloaded = createDocumentFileAdapter(filePath)
+    expect(await reloaded.getItem('settings')).toBe(
+      JSON.stringify({
+        version: 1,
+        data: { theme: 'dark' },
+        fingerprint: schemaFingerprint(schema),
+      })
+    )
+    expect(await reloaded.getItem('tasks')).toBe(
+      JSON.stringify({ version: 2, data: ['write tests'] })
+    )
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import {
+  persistentAtom,
+  jsonCodec,
+  pipeCodec,
+  encryption,
+  withEncryption,
+} from '../index'
+import { createMemoryAdapter } from '../testing'
+
+const rawKey = (fill: number) => new Uint8Array(32).fill(fill)
+
+describe('encryption', () => {
+  it('should encrypt and decrypt with a raw key', async () => {
+    const transform = encryption({ keys: [{ id: 'k1', key: rawKey(1) }] })
+
+    const encrypted = await transform.encode('{"token":"secret"}')
+
+    expect(encrypted).toMatch(/^enc:v1:k1:/)
+    expect(encrypted).not.toContain('secret')
+    expect(await transform.decode(encrypted)).toBe('{"token":"secret"}')
+  })
+
+  it('should use a fresh IV for every write', async () => {
+    const transform = encryption({ keys: [{ id: 'k1', key: rawKey(1) }] })
+    expect(await transform.encode('same')).not.toBe(
+      await transform.encode('same')
+    )
+  })
+
+  it('should derive a key from a passphrase', async () => {
+    const options = {
+      keys: [{ id: 'pass', passphrase: 'correct horse', iterations: 1000 }],
+    }
+    const encrypted = await encryption(options).encode('hello')
+
+    // A separate instance derives the same key
+    expect(await encryption(options).decode(encrypted)).toBe('hello')
+  })
+
+  it('should decrypt values written with a rotated-out key', async () => {
+    const oldKey = { id: 'old', key: rawKey(1) }
+    const newKey = { id: 'new', key: rawKey(2) }
+    const encrypted = await encryption({ keys: [oldKey] }).encode('hello')
+
+    const rotated = encryption({ keys: [newKey, oldKey] })
+
+    expect(await rotated.decode(encrypted)).toBe('hello')
+    expect(await rotated.encode('hello')).toMatch(/^enc:v1:new:/)
+  })
+
+  it('should reject a wrong key, an unknown key and plaintext', async () => {
+    const encrypted = await encryption({
+      keys: [{ id: 'k1', key: rawKey(1) }],
+    }).encode('hello')
+
+    await expect(
+      encryption({ keys: [{ id: 'k1', key: rawKey(9) }] }).decode(encrypted)
+    ).rejects.toThrow(/wrong key or tampered data/)
+    await expect(
+      encryption({ keys: [{ id: 'k2', key: rawKey(1) }] }).decode(encrypted)
+    ).rejects.toThrow(/unknown key "k1"/)
+    await expect(
+      encryption({ keys: [{ id: 'k1', key: rawKey(1) }] }).decode('"hello"')
+    ).rejects.toThrow(/not encrypted/)
+  })
+
+  it('should read plaintext when allowPlaintext is set', async () => {
+    const transform = encryption({
+      keys: [{ id: 'k1', key: rawKey(1) }],
+      allowPlaintext: true,
+    })
+    expect(await transform.decode('"hello"')).toBe('"hello"')
+  })
+
+  describe('with persistentAtom', () => {
+    it('should re-encrypt with the current key after rotation', async () => {
+      const storage = createMemoryAdapter({}, 'mock')
+      const oldKey = { id: 'old', key: rawKey(1) }
+      const writer = persistentAtom(
+        { token: 'secret' },
+        {
+          key: 'auth',
+          storage,
+          codec: pipeCodec(jsonCodec, encryption({ keys: [oldKey] })),
+        }
+      )
+      await writer.ready
+      await writer.flush()
+      expect(storage.state['auth']).toMatch(/^enc:v1:old:/)
+
+      const reader = persistentAtom<{ token: string } | null>(null, {
+        key: 'auth',
+        storage,
+        codec: pipeCodec(
+          jsonCodec,
+          encryption({ keys: [{ id: 'new', key: rawKey(2) }, oldKey] })
+        ),
+      })
+      await reader.ready
+      expect(reader.get()).toEqual({ token: 'secret' })
+
+      await reader.setAndFlush({ token: 'rotated' })
+      expect(storage.state['auth']).toMatch(/^enc:v1:new:/)
+    })
+
+    it('should go through onCorruption when the key is wrong', async () => {
+      const inner = createMemoryAdapter({}, 'mock')
+      const storage = withEncryption(inner, {
+        keys: [{ id: 'k1', key: rawKey(1) }],
+      })
+      await storage.setItem('auth', JSON.stringify({ version: 1, data: 'x' }))
+
+      const onCorruption = vi.fn(() => Promise.resolve('fallback'))
+      const schemaParse = vi.fn((data: unknown) => ({
+        success: true as const,
+        data: data as string,
+      }))
+      const myAtom = persistentAtom('initial', {
+        key: 'auth',
+        storage: withEncryption(inner, {
+          keys: [{ id: 'k1', key: rawKey(9) }],
+        }),
+        schema: { safeParse: schemaParse },
+        onCorruption,
+      })
+      await myAtom.ready
+
+      expect(onCorruption).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringMatching(/wrong key/) as string,
+        })
+      )
+      expect(schemaParse).not.toHaveBeenCalledWith('x')
+      expect(myAtom.get()).toBe('fallback')
+    })
+
+    it('should encrypt everything a wrapped adapter stores', async () => {
+      const inner = createMemoryAdapter({}, 'mock')
+      const storage = withEncryption(inner, {
+        keys: [{ id: 'k1', key: rawKey(1) }],
+      })
+      expect(storage.name).toBe('encrypted(mock)')
+
+      const myAtom = persistentAtom(
+        { token: 'secret' },
+        { key: 'auth', storage }
+      )
+      await myAtom.ready
+      await myAtom.flush()
+
+      expect(inner.state['auth']).toMatch(/^enc:v1:k1:/)
+      expect(await storage.getItem('auth')).toBe(
+        JSON.stringify({ version: 1, data: { token: 'secret' } })
+      )
+    })
+  })
+})
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs/promises'
+import { execFile } from 'node:child_process'
+import os from 'node:os'
+import path from 'node:path'
+
+import { persistentAtom, silentLogger } from '../index'
+import { createFileAdapter } from '../adapters/file-adapter'
+import { withFileLock } from '../adapters/file-utils'
+
+// Runs in a child process: persists a value with the file adapter and then
+// lets the process end by itself. The sources are loaded through Vite, since
+// Node can't import TypeScript.
+const fileStoreProcess = `
+import { createViteServer } from 'vitest/node'
+
+const server = await createViteServer({
+  configFile: false,
+  logLevel: 'silent',
+  appType: 'custom',
+  server: { middlewareMode: true, watch: null, ws: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+})
+const { persistentAtom } = await server.ssrLoadModule('/src/index.ts')
+const { createFileAdapter } = await server.ssrLoadModule('/src/adapters/file-adapter.ts')
+await server.close()
+
+const $count = persistentAtom(0, {
+  key: 'count',
+  storage: createFileAdapter(process.argv[1]),
+})
+await $count.ready
+await $count.setAndFlush(1)
+`
+
+describe('createFileAdapter', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zod-persist-'))
+    filePath = path.join(dir, 'store.json')
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  describe('Atomic writes', () => {
+    it('should write and read back a value', async () => {
+      const adapter = createFileAdapter(filePath)
+      await adapter.setItem('test', '{"version":1,"data":"hello"}')
+
+      expect(await adapter.getItem('test')).toBe('{"version":1,"data":"hello"}')
+      // No temp or lock files are left behind
+      expect(await fs.readdir(dir)).toEqual(['store.json'])
+    })
+
+    it('should keep the previous content when a write is interrupted before rename', async () => {
+      const adapter = createFileAdapter(filePath)
+      await adapter.setItem('test', '"old"')
+
+      vi.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('power loss'))
+      await expect(adapter.setItem('test', '"new"')).rejects.toThrow(
+        'power loss'
+      )
+
+      expect(await adapter.getItem('test')).toBe('"old"')
+      expect(await fs.readdir(dir)).toEqual(['store.json'])
+    })
+
+    it('should ignore a temp file left behind by a crashed writer', async () => {
+      const adapter = createFileAdapter(filePath)
+      await adapter.setItem('test', '"complete"')
+      await fs.writeFile(`${filePath}.999.abc.tmp`, '{"version":1,"da')
+
+      expect(await adapter.getItem('test')).toBe('"complete"')
+    })
+  })
+
+  describe('Removing', () => {
+    it('should delete the file', async () => {
+      const adapter = createFileAdapter(filePath)
+      await adapter.setItem('test', '"value"')
+      await adapter.removeItem!('test')
+
+      expect(await adapter.getItem('test')).toBeUndefined()
+      expect(await fs.readdir(dir)).toEqual([])
+      // Removing a missing file is not an error
+      await expect(adapter.removeItem!('test')).resolves.toBeUndefined()
+    })
+  })
+
+  describe('Watching', () => {
+    it('should notify subscribers about writes from another process', async () => {
+      const watcher = createFileAdapter(filePath)
+      const writer = createFileAdapter(filePath)
+      const callback = vi.fn()
+      const unsubscribe = watcher.subscribe!('test', callback)
+
+      await writer.setItem('test', '"external"')
+      await vi.waitFor(() =>
+        expect(callback).toHaveBeenCalledWith('"external"')
+      )
+      unsubscribe()
+    })
+
+    it('should not notify subscribers about its own writes', async () => {
+      const adapter = createFileAdapter(filePath)
+      const callback = vi.fn()
+      const unsubscribe = adapter.subscribe!('test', callback)
+
+      await adapter.setItem('test', '"own"')
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      expect(callback).not.toHaveBeenCalled()
+      unsubscribe()
+    })
+
+    it('should let the process exit while an atom is subscribed', async () => {
+      const exitCode = await new Promise<number | null>((resolve) => {
+        const child = execFile(
+          process.execPath,
+          ['--input-type=module', '-e', fileStoreProcess, filePath],
+          { cwd: path.join(__dirname, '..', '..'), timeout: 20_000 }
+        )
+        child.on('exit', (code) => resolve(code))
+      })
+
+      // A watcher that kept the process alive would hit the timeout
+      expect(exitCode).toBe(0)
+      expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({
+        version: 1,
+        data: 1,
+      })
+    }, 30_000)
+  })
+
+  describe('Locking', () => {
+    it('should serialize concurrent writers', async () => {
+      const writerA = createFileAdapter(filePath)
+      const writerB = createFileAdapter(filePath)
+      const values = Array.from({ length: 20 }, (_, i) =>
+        JSON.stringify({ version: 1, data: 'x'.repeat(1000 * (i + 1)) })
+      )
+
+      await Promise.all(
+        values.map((value, i) =>
+          (i % 2 ? writerA : writerB).setItem('test', value)
+        )
+      )
+
+      const content = await writerA.getItem('test')
+      expect(values).toContain(content)
+      expect(() => JSON.parse(content!) as unknown).not.toThrow()
+      expect(await fs.readdir(dir)).toEqual(['store.json'])
+    })
+
+    it('should wait for a lock held by another process', async () => {
+      const adapter = createFileAdapter(filePath, { lockRetryMs: 5 })
+      await fs.writeFile(`${filePath}.lock`, '12345')
+
+      const write = adapter.setItem('test', '"value"')
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      expect(await adapter.getItem('test')).toBeUndefined()
+
+      await fs.unlink(`${filePath}.lock`)
+      await write
+      expect(await adapter.getItem('test')).toBe('"value"')
+    })
+
+    it('should break a stale lock', async () => {
+      const adapter = createFileAdapter(filePath, { staleLockMs: 1000 })
+      await fs.writeFile(`${filePath}.lock`, '12345')
+      const past = new Date(Date.now() - 5000)
+      await fs.utimes(`${filePath}.lock`, past, past)
+
+      await adapter.setItem('test', '"value"')
+      expect(await adapter.getItem('test')).toBe('"value"')
+    })
+
+    it('should keep a held lock from looking stale', async () => {
+      const lockPath = `${filePath}.lock`
+      const ages: number[] = []
+      await withFileLock(
+        filePath,
+        async () => {
+          for (let i = 0; i < 4; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 50))
+            ages.push(Date.now() - (await fs.stat(lockPath)).mtimeMs)
+          }
+        },
+        { staleLockMs: 90 }
+      )
+
+      expect(Math.max(...ages)).toBeLessThan(90)
+      await expect(fs.access(lockPath)).rejects.toThrow()
+    })
+
+    it('should not delete a lock that was broken while held', async () => {
+      const lockPath = `${filePath}.lock`
+      await withFileLock(filePath, async () => {
+        // Another process decided the lock was stale and took it over
+        await fs.unlink(lockPath)
+        await fs.writeFile(lockPath, '12345:other')
+      })
+
+      expect(await fs.readFile(lockPath, 'utf8')).toBe('12345:other')
+    })
+
+    it('should not break a lock that was just taken', async () => {
+      const adapter = createFileAdapter(filePath, {
+        staleLockMs: 1000,
+        lockTimeoutMs: 50,
+        lockRetryMs: 5,
+      })
+      const lockPath = `${filePath}.lock`
+      await fs.writeFile(lockPath, '12345:stale')
+      const past = new Date(Date.now() - 5000)
+      await fs.utimes(lockPath, past, past)
+
+      // Another process breaks the stale lock and takes it between our
+      // stat and rename
+      const rename = fs.rename.bind(fs)
+      vi.spyOn(fs, 'rename').mockImplementationOnce(async (from, to) => {
+        await fs.unlink(lockPath)
+        await fs.writeFile(lockPath, '67890:fresh')
+        return rename(from, to)
+      })
+
+      await expect(adapter.setItem('test', '"value"')).rejects.toThrow(
+        /Timed out/
+      )
+      expect(await fs.readFile(lockPath, 'utf8')).toBe('67890:fresh')
+    })
+
+    it('should time out if the lock is never released', async () => {
+      const adapter = createFileAdapter(filePath, {
+        lockTimeoutMs: 50,
+        lockRetryMs: 5,
+      })
+      await fs.writeFile(`${filePath}.lock`, '12345')
+
+      await expect(adapter.setItem('test', '"value"')).rejects.toThrow(
+        /Timed out/
+      )
+    })
+  })
+
+  describe('Backups', () => {
+    it('should list, restore and delete backup files', async () => {
+      const adapter = createFileAdapter(filePath)
+      expect(await adapter.backup!('test')).toBeUndefined()
+
+      await adapter.setItem('test', '"first"')
+      vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+      const backup = await adapter.backup!('test')
+      vi.mocked(Date.now).mockRestore()
+      await adapter.setItem('test', '"second"')
+
+      expect(backup).toEqual({
+        id: `${filePath}.1700000000000.bak`,
+        key: 'test',
+        createdAt: 1_700_000_000_000,
+      })
+      expect(await adapter.listBackups!('test')).toEqual([backup])
+
+      await adapter.restoreBackup!('test', backup!.id)
+      expect(await adapter.getItem('test')).toBe('"first"')
+
+      await adapter.deleteBackup!('test', backup!.id)
+      expect(await fs.readdir(dir)).toEqual(['store.json'])
+    })
+
+    it('should leave reporting a corrupted file to the atom', async () => {
+      await fs.writeFile(filePath, '{"version": 1, "data": "trunc')
+      const consoleSpies = (['log', 'warn', 'error'] as const).map((method) =>
+        vi.spyOn(console, method)
+      )
+      const logger = { ...silentLogger, log: vi.fn() }
+
+      const $value = persistentAtom('', {
+        key: 'test',
+        storage: createFileAdapter(filePath, { logger: silentLogger }),
+        logger,
+        onCorruption: () => Promise.resolve('fallback'),
+      })
+      await $value.ready
+
+      expect($value.get()).toBe('fallback')
+      expect(logger.log).toHaveBeenCalledWith(
+        expect.stringMatching(/^\[persistentAtom\] Created backup at: .*\.bak$/)
+      )
+      consoleSpies.forEach((spy) => expect(spy).not.toHaveBeenCalled())
+    })
+
+    it('should not restore files that are not its backups', async () => {
+      const adapter = createFileAdapter(filePath)
+      const other = path.join(dir, 'other.json')
+      await fs.writeFile(other, '"other"')
+
+      await expect(adapter.restoreBackup!('test', other)).rejects.toThrow(
+        'No backup'
+      )
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { z } from 'zod'
+
+import { persistentAtom, persistentMap, schemaFingerprint } from '../index'
+import { createMemoryAdapter } from '../testing'
+
+const oldSchema = z.object({ name: z.string() })
+const newSchema = z.object({ name: z.string(), age: z.number().default(0) })
+
+const stored = (data: unknown, version: number, schema: z.ZodType) =>
+  JSON.stringify({ version, data, fingerprint: schemaFingerprint(schema) })
+
+describe('schemaFingerprint', () => {
+  it('should be the same for equal schemas', () => {
+    expect(schemaFingerprint(z.object({ a: z.string(), b: z.number() }))).toBe(
+      schemaFingerprint(z.object({ b: z.number(), a: z.string() }))
+    )
+    expect(schemaFingerprint(oldSchema)).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('should change when the shape of the data changes', () => {
+    expect(schemaFingerprint(newSchema)).not.toBe(schemaFingerprint(oldSchema))
+    expect(
+      schemaFingerprint(z.object({ name: z.string().optional() }))
+    ).not.toBe(schemaFingerprint(oldSchema))
+  })
+
+  it('should be undefined for schemas that are not Zod schemas', () => {
+    const schema = { safeParse: (data: unknown) => ({ success: true, data }) }
+    expect(schemaFingerprint(schema as never)).toBeUndefined()
+  })
+})
+
+describe('onSchemaChange', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should warn when the schema changed without a version bump', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const storage = createMemoryAdapter({
+      user: stored({ name: 'Ada' }, 1, oldSchema),
+    })
+    const $user = persistentAtom(
+      { name: '', age: 0 },
+      { key: 'user', storage, schema: newSchema }
+    )
+    await $user.ready
+
+    expect($user.get()).toEqual({ name: 'Ada', age: 0 })
+    expect(warn).toHaveBeenCalledWith(
+      '[persistentAtom] The schema for key "user" changed since the stored data was written, but the version is still 1. Bump `version` and add a migration, or the stored data may fail validation.'
+    )
+  })
+
+  it('should treat the data as corrupted with onSchemaChange: error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const onCorruption = vi.fn(() =>
+      Promise.resolve({ name: 'Fallback', age: 0 })
+    )
+    const storage = createMemoryAdapter({
+      user: stored({ name: 'Ada' }, 1, oldSchema),
+    })
+    const $user = persistentAtom(
+      { name: '', age: 0 },
+      {
+        key: 'user',
+        storage,
+        schema: newSchema,
+        onSchemaChange: 'error',
+        onCorruption,
+      }
+    )
+    await $user.ready
+
+    expect(onCorruption).toHaveBeenCalledWith(
+      new Error(
+        'The schema for key "user" changed since the stored data was written, but the version is still 1. Bump `version` and add a migration, or the stored data may fail validation.'
+      )
+    )
+    expect($user.get()).toEqual({ name: 'Fallback', age: 0 })
+  })
+
+  it('should not warn after a version bump or without a stored fingerprint', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const storage = createMemoryAdapter({
+      bumped: stored({ name: 'Ada' }, 1, oldSchema),
+      legacy: JSON.stringify({ version: 1, data: { name: 'Ada' } }),
+    })
+    const options = { storage, schema: newSchema }
+    const $bumped = persistentAtom(
+      { name: '', age: 0 },
+      { ...options, key: 'bumped', version: 2 }
+    )
+    const $legacy = persistentAtom(
+      { name: '', age: 0 },
+      { ...options, key: 'legacy' }
+    )
+    await Promise.all([$bumped.ready, $legacy.ready])
+
+    expect($bumped.get()).toEqual({ name: 'Ada', age: 0 })
+    expect($legacy.get()).toEqual({ name: 'Ada', age: 0 })
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it('should warn once for a map', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const storage = createMemoryAdapter({
+      'settings:theme': stored('dark', 1, z.object({ theme: z.string() })),
+      'settings:fontSize': stored(14, 1, z.object({ theme: z.string() })),
+    })
+    const $settings = persistentMap(
+      { theme: 'light', fontSize: 12 },
+      {
+        key: 'settings',
+        storage,
+        schema: z.object({ theme: z.string(), fontSize: z.number() }),
+      }
+    )
+    await $settings.ready
+
+    expect($settings.get()).toEqual({ theme: 'dark', fontSize: 14 })
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][0]).toContain(
+      '[persistentMap] The schema for key "settings" changed'
+    )
+  })
+})
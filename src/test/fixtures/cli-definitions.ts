@@ -0,0 +1,22 @@
+import { z } from 'zod'
+
+import type { AtomDefinition } from '../../index'
+
+const taskSchema = z.object({ title: z.string(), done: z.boolean() })
+
+// Version 1 stored the task titles, version 2 stores task objects
+export const tasks: AtomDefinition = {
+  key: 'tasks',
+  schema: z.array(taskSchema),
+  version: 2,
+  versionSchemas: { 1: z.array(z.string()) },
+  migrations: {
+    2: (titles) =>
+      (titles as string[]).map((title) => ({ title, done: false })),
+  },
+}
+
+export const theme: AtomDefinition = {
+  key: 'theme',
+  schema: z.enum(['light', 'dark']),
+}
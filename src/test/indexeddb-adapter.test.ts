@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { IDBFactory as FakeIDBFactory } from 'fake-indexeddb'
+import { z } from 'zod'
+
+import { persistentAtom } from '../index'
+import { createIndexedDBAdapter } from '../adapters/indexeddb-adapter'
+import type { IndexedDBFactory } from '../adapters/indexeddb-adapter'
+
+// fake-indexeddb's types refer to the DOM library, which this project doesn't load
+const IDBFactory = FakeIDBFactory as unknown as new () => IndexedDBFactory
+
+describe('createIndexedDBAdapter', () => {
+  let indexedDB: IndexedDBFactory
+
+  beforeEach(() => {
+    // A fresh in-memory IndexedDB for every test
+    indexedDB = new IDBFactory()
+  })
+
+  it('should store, read and delete values', async () => {
+    const adapter = createIndexedDBAdapter('app', 'state', { indexedDB })
+
+    expect(await adapter.getItem('settings')).toBeUndefined()
+
+    await adapter.setItem('settings', '{"version":1,"data":"dark"}')
+    expect(await adapter.getItem('settings')).toBe(
+      '{"version":1,"data":"dark"}'
+    )
+
+    await adapter.removeItem!('settings')
+    expect(await adapter.getItem('settings')).toBeUndefined()
+  })
+
+  it('should list the stored keys', async () => {
+    const adapter = createIndexedDBAdapter('app', 'state', { indexedDB })
+    await adapter.setItem('tasks', '[]')
+    await adapter.setItem('settings', '{}')
+
+    expect(await adapter.keys!()).toEqual(['settings', 'tasks'])
+  })
+
+  it('should keep values across connections', async () => {
+    await createIndexedDBAdapter('app', 'state', { indexedDB }).setItem(
+      'tasks',
+      '[]'
+    )
+
+    const fresh = createIndexedDBAdapter('app', 'state', { indexedDB })
+    expect(await fresh.getItem('tasks')).toBe('[]')
+  })
+
+  it('should add a new store to an existing database', async () => {
+    const settings = createIndexedDBAdapter('app', 'settings', { indexedDB })
+    await settings.setItem('theme', '"dark"')
+
+    // Needs a version upgrade, which closes the first connection
+    const tasks = createIndexedDBAdapter('app', 'tasks', { indexedDB })
+    await tasks.setItem('list', '[]')
+
+    expect(await tasks.getItem('list')).toBe('[]')
+    // The first adapter reconnects on its next call
+    expect(await settings.getItem('theme')).toBe('"dark"')
+    expect(await settings.keys!()).toEqual(['theme'])
+  })
+
+  it('should throw when IndexedDB is not available', () => {
+    expect(() => createIndexedDBAdapter('app')).toThrow(
+      'IndexedDB is not available'
+    )
+  })
+
+  it('should persist an atom', async () => {
+    const storage = createIndexedDBAdapter('app', 'state', { indexedDB })
+    const $tasks = persistentAtom<string[]>([], {
+      key: 'tasks',
+      storage,
+      schema: z.array(z.string()),
+    })
+    await $tasks.ready
+    await $tasks.setAndFlush(['Write tests'])
+
+    const $reloaded = persistentAtom<string[]>([], {
+      key: 'tasks',
+      storage: createIndexedDBAdapter('app', 'state', { indexedDB }),
+    })
+    await $reloaded.ready
+    expect($reloaded.get()).toEqual(['Write tests'])
+  })
+})
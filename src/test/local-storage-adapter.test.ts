@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import { createWebStorageAdapter } from '../adapters/local-storage-adapter'
+
+const createWebStorage = () => {
+  const state = new Map<string, string>()
+  return {
+    getItem: (key: string) => state.get(key) ?? null,
+    setItem: (key: string, value: string) => void state.set(key, value),
+    removeItem: (key: string) => void state.delete(key),
+  }
+}
+
+describe('createWebStorageAdapter', () => {
+  afterEach(() => vi.unstubAllGlobals())
+
+  it('should read and write the given storage area', async () => {
+    const storageArea = createWebStorage()
+    const adapter = createWebStorageAdapter(storageArea)
+
+    expect(await adapter.getItem('test')).toBeUndefined()
+    await adapter.setItem('test', '"value"')
+    expect(storageArea.getItem('test')).toBe('"value"')
+    expect(await adapter.getItem('test')).toBe('"value"')
+
+    await adapter.removeItem!('test')
+    expect(storageArea.getItem('test')).toBeNull()
+  })
+
+  it('should forward storage events for its key and storage area', () => {
+    const target = new EventTarget()
+    vi.stubGlobal('addEventListener', target.addEventListener.bind(target))
+    vi.stubGlobal(
+      'removeEventListener',
+      target.removeEventListener.bind(target)
+    )
+    const storageArea = createWebStorage()
+    const adapter = createWebStorageAdapter(storageArea)
+    const callback = vi.fn()
+    const unsubscribe = adapter.subscribe!('test', callback)
+
+    const dispatch = (init: object) =>
+      target.dispatchEvent(Object.assign(new Event('storage'), init))
+
+    dispatch({ key: 'other', newValue: '"x"', storageArea })
+    dispatch({ key: 'test', newValue: '"x"', storageArea: {} })
+    expect(callback).not.toHaveBeenCalled()
+
+    dispatch({ key: 'test', newValue: '"x"', storageArea })
+    expect(callback).toHaveBeenCalledWith('"x"')
+
+    unsubscribe()
+    dispatch({ key: 'test', newValue: '"y"', storageArea })
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest'
+import fs from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import {
+  createFileAdapter,
+  persistentAtom,
+  withPrefix,
+  withFallback,
+  withMemoryCache,
+  withReadOnly,
+} from '../index'
+import { createMemoryAdapter, withChaos } from '../testing'
+
+const envelope = (data: unknown) => JSON.stringify({ version: 1, data })
+
+describe('withPrefix', () => {
+  it('should store keys under the prefix', async () => {
+    const memory = createMemoryAdapter({ other: 'x' })
+    const storage = withPrefix(memory, 'user1:')
+
+    await storage.setItem('theme', 'dark')
+    expect(memory.state).toEqual({ other: 'x', 'user1:theme': 'dark' })
+    expect(await storage.getItem('theme')).toBe('dark')
+    expect(await storage.keys!()).toEqual(['theme'])
+    expect(storage.name).toBe('prefixed(memory, user1:)')
+  })
+
+  it('should back up and restore the prefixed key', async () => {
+    const memory = createMemoryAdapter({ 'user1:theme': 'dark' })
+    const storage = withPrefix(memory, 'user1:')
+
+    const backup = await storage.backup!('theme')
+    expect(backup?.key).toBe('theme')
+    await storage.setItem('theme', 'light')
+    await storage.restoreBackup!('theme', backup!.id)
+    expect(memory.state['user1:theme']).toBe('dark')
+  })
+})
+
+describe('withFallback', () => {
+  it('should use the secondary storage when the primary fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const primary = withChaos(createMemoryAdapter(), {
+      failOn: { getItem: 1, setItem: 1 },
+    })
+    const secondary = createMemoryAdapter({ theme: 'dark' }, 'secondary')
+    const storage = withFallback(primary, secondary)
+
+    expect(await storage.getItem('theme')).toBe('dark')
+    await storage.setItem('theme', 'light')
+    expect(secondary.state.theme).toBe('light')
+    expect(storage.name).toBe('fallback(chaos(memory), secondary)')
+  })
+
+  it('should read from the secondary storage when the primary has no value', async () => {
+    const storage = withFallback(
+      createMemoryAdapter(),
+      createMemoryAdapter({ theme: 'dark' })
+    )
+    expect(await storage.getItem('theme')).toBe('dark')
+  })
+
+  it('should remove keys from both storages', async () => {
+    const primary = createMemoryAdapter({ theme: 'dark' })
+    const secondary = createMemoryAdapter({ theme: 'light' })
+    const storage = withFallback(primary, secondary)
+
+    expect(await storage.keys!()).toEqual(['theme'])
+    await storage.removeItem!('theme')
+    expect(primary.state).toEqual({})
+    expect(secondary.state).toEqual({})
+  })
+
+  it('should back up corrupted data in the primary storage', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zod-persist-'))
+    const filePath = path.join(dir, 'store.json')
+    await fs.writeFile(filePath, '{ not json')
+    try {
+      const storage = withFallback(
+        createFileAdapter(filePath),
+        createMemoryAdapter()
+      )
+      expect(storage.filePath).toBe(filePath)
+
+      const $count = persistentAtom(0, {
+        key: 'count',
+        storage,
+        onCorruption: () => Promise.resolve(0),
+      })
+      await $count.ready
+
+      const files = await fs.readdir(dir)
+      const backup = files.find((file) => file.endsWith('.bak'))
+      expect(backup).toBeDefined()
+      expect(await fs.readFile(path.join(dir, backup!), 'utf8')).toBe(
+        '{ not json'
+      )
+      expect(() =>
+        persistentAtom(0, { key: 'count', storage, history: true })
+      ).toThrow('The "history" option needs an adapter')
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('withMemoryCache', () => {
+  it('should read each key only once', async () => {
+    const memory = createMemoryAdapter({ theme: 'dark' })
+    const getItem = vi.spyOn(memory, 'getItem')
+    const storage = withMemoryCache(memory)
+
+    expect(await storage.getItem('theme')).toBe('dark')
+    expect(await storage.getItem('theme')).toBe('dark')
+    await storage.setItem('theme', 'light')
+    expect(await storage.getItem('theme')).toBe('light')
+    expect(getItem).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not cache failed reads', async () => {
+    const storage = withMemoryCache(
+      withChaos(createMemoryAdapter({ theme: 'dark' }), {
+        failOn: { getItem: 1 },
+      })
+    )
+    await expect(storage.getItem('theme')).rejects.toThrow()
+    expect(await storage.getItem('theme')).toBe('dark')
+  })
+
+  it('should update the cache on external changes', async () => {
+    const memory = createMemoryAdapter({ theme: 'dark' })
+    const storage = withMemoryCache(memory)
+    const listener = vi.fn()
+    const unsubscribe = storage.subscribe!('theme', listener)
+
+    expect(await storage.getItem('theme')).toBe('dark')
+    memory.simulateExternalChange('theme', 'light')
+    expect(listener).toHaveBeenCalledWith('light')
+    expect(await storage.getItem('theme')).toBe('light')
+    unsubscribe()
+  })
+})
+
+describe('withReadOnly', () => {
+  it('should reject writes', async () => {
+    const memory = createMemoryAdapter({ theme: 'dark' })
+    const storage = withReadOnly(memory)
+
+    expect(await storage.getItem('theme')).toBe('dark')
+    await expect(storage.setItem('theme', 'light')).rejects.toThrow(
+      'storage readonly(memory) is read-only'
+    )
+    await expect(storage.removeItem!('theme')).rejects.toThrow()
+    expect(memory.state).toEqual({ theme: 'dark' })
+    expect(storage.backup).toBeUndefined()
+  })
+
+  it('should name the composed storage in error messages', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const $theme = persistentAtom('light', {
+      key: 'theme',
+      storage: withReadOnly(
+        withPrefix(
+          createMemoryAdapter({ 'app:theme': envelope('dark') }),
+          'app:'
+        )
+      ),
+    })
+    await $theme.ready
+    expect($theme.get()).toBe('dark')
+
+    await $theme.setAndFlush('blue').catch(() => {})
+    expect(error).toHaveBeenCalledWith(
+      '[persistentAtom] Failed to write to readonly(prefixed(memory, app:)) for key "theme":',
+      expect.any(Error)
+    )
+  })
+})
@@ -2,8 +2,21 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import fs from 'fs/promises'
 import { z } from 'zod'
 
-import { persistentAtom, StorageAdapter } from '../index'
+import {
+  persistentAtom,
+  StorageAdapter,
+  jsonCodec,
+  richJsonCodec,
+  pipeCodec,
+  gzip,
+  migrationChain,
+  silentLogger,
+  withBackups,
+  pruneBackups,
+  schemaFingerprint,
+} from '../index'
 import { createFileAdapter } from '../adapters/file-adapter'
+import { createMemoryAdapter } from '../testing'
 
 // --- MOCK NODE.JS MODULES ONLY ---
 vi.mock('fs/promises', () => ({
@@ -19,21 +32,18 @@ vi.mock('fs/promises', () => ({
 /**
  * A helper function to create a fresh, in-memory mock storage adapter for each test.
  */
-const createMockStorage = (): StorageAdapter & {
-  state: Record<string, string>
-} => {
-  const state: Record<string, string> = {}
+const createMockStorage = () => {
+  const storage = createMemoryAdapter({}, 'mock')
   return {
-    state,
-    name: 'mock',
-    getItem: vi.fn((key: string) => Promise.resolve(state[key])),
-    setItem: vi.fn((key: string, value: string) => {
-      state[key] = value
-      return Promise.resolve()
-    }),
+    ...storage,
+    getItem: vi.fn(storage.getItem),
+    setItem: vi.fn(storage.setItem),
+    removeItem: vi.fn(storage.removeItem),
   }
 }
 
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0))
+
 describe('persistentAtom', () => {
   let mockStorage: ReturnType<typeof createMockStorage>
 
@@ -215,216 +225,1609 @@ describe('persistentAtom', () => {
     })
   })
 
-  describe('Error Handling', () => {
-    it('should create a backup of a corrupted file on hydration error', async () => {
-      const corruptedData = 'this-is-not-valid-json'
-      const corruptedFilePath = '/mock/support/path/corrupted.json'
+  describe('Write Queue', () => {
+    it('should not let an older write finish after a newer one', async () => {
+      // The first write is slow, the ones after it are fast
+      const resolvers: (() => void)[] = []
+      const setItem = vi.fn((key: string, value: string) => {
+        if (resolvers.length > 0) {
+          mockStorage.state[key] = value
+          return Promise.resolve()
+        }
+        return new Promise<void>((resolve) => {
+          resolvers.push(() => {
+            mockStorage.state[key] = value
+            resolve()
+          })
+        })
+      })
+      const myAtom = persistentAtom(0, {
+        key: 'queue-test',
+        storage: { ...mockStorage, setItem },
+      })
+      await myAtom.ready
 
-      vi.mocked(fs.readFile).mockResolvedValue(Buffer.from(corruptedData))
+      myAtom.set(1)
+      myAtom.set(2)
+      myAtom.set(3)
+      expect(setItem).toHaveBeenCalledTimes(1)
+
+      resolvers[0]()
+      await myAtom.flush()
+
+      expect(setItem.mock.calls.map(([, value]) => value)).toEqual([
+        JSON.stringify({ version: 1, data: 1 }),
+        JSON.stringify({ version: 1, data: 3 }),
+      ])
+      expect(mockStorage.state['queue-test']).toBe(
+        JSON.stringify({ version: 1, data: 3 })
+      )
+    })
 
+    it('should retry failed writes when retry is set', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const setItem = vi
+        .fn<StorageAdapter['setItem']>()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue(undefined)
       const myAtom = persistentAtom('initial', {
-        key: 'corrupted-atom',
-        storage: createFileAdapter(corruptedFilePath),
+        key: 'retry-test',
+        storage: { ...mockStorage, setItem },
+        retry: { retries: 2, delayMs: 1 },
       })
+      await myAtom.ready
 
-      await expect(myAtom.ready).rejects.toThrow()
+      await myAtom.setAndFlush('saved')
 
-      expect(fs.rename).toHaveBeenCalledWith(
-        corruptedFilePath,
-        expect.stringContaining('.bak')
+      expect(setItem).toHaveBeenCalledTimes(2)
+      expect(setItem).toHaveBeenLastCalledWith(
+        'retry-test',
+        JSON.stringify({ version: 1, data: 'saved' })
       )
     })
 
-    it('should use the onCorruption handler to provide a fallback value', async () => {
-      mockStorage.state['corrupt-key'] = 'not-json'
+    it('should retry an unsaved value on destroy', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const setItem = vi
+        .fn<StorageAdapter['setItem']>()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue(undefined)
+      const myAtom = persistentAtom('initial', {
+        key: 'unsaved-test',
+        storage: { ...mockStorage, setItem },
+      })
+      await myAtom.ready
 
-      const myAtom = persistentAtom(
-        { status: 'default' },
-        {
-          key: 'corrupt-key',
-          storage: mockStorage,
-          onCorruption: (error) => {
-            console.log('Corruption handled:', error.message)
-            return Promise.resolve({ status: 'recovered' })
-          },
-        }
+      myAtom.set('unsaved')
+      await flushPromises()
+      await myAtom.destroy()
+
+      expect(setItem).toHaveBeenCalledTimes(2)
+      expect(setItem).toHaveBeenLastCalledWith(
+        'unsaved-test',
+        JSON.stringify({ version: 1, data: 'unsaved' })
       )
+    })
+  })
 
-      // The .ready promise should now RESOLVE successfully
+  describe('Status', () => {
+    beforeEach(() => vi.useFakeTimers())
+    afterEach(() => vi.useRealTimers())
+
+    it('should report hydration, pending and saving states', async () => {
+      vi.setSystemTime(1_700_000_000_000)
+      const myAtom = persistentAtom(0, {
+        key: 'status-test',
+        storage: mockStorage,
+        debounceMs: 100,
+      })
+      expect(myAtom.status.get()).toEqual({
+        state: 'hydrating',
+        hydrated: false,
+        dirty: false,
+        lastSavedAt: undefined,
+        error: undefined,
+      })
       await myAtom.ready
+      expect(myAtom.status.get().state).toBe('idle')
 
-      // The atom should have the fallback value
-      expect(myAtom.get()).toEqual({ status: 'recovered' })
+      myAtom.set(1)
+      expect(myAtom.status.get()).toMatchObject({
+        state: 'pending',
+        dirty: true,
+      })
 
-      // And it should write the recovered value back to storage
-      expect(mockStorage.setItem).toHaveBeenCalledWith(
-        'corrupt-key',
-        expect.stringContaining('recovered')
-      )
+      const states: string[] = []
+      const unbind = myAtom.status.listen(({ state }) => {
+        if (states[states.length - 1] !== state) states.push(state)
+      })
+      await vi.advanceTimersByTimeAsync(100)
+      unbind()
+
+      expect(states).toEqual(['saving', 'idle'])
+      expect(myAtom.status.get()).toEqual({
+        state: 'idle',
+        hydrated: true,
+        dirty: false,
+        lastSavedAt: 1_700_000_000_100,
+        error: undefined,
+      })
     })
-  })
 
-  describe('Zod Schema Validation', () => {
-    const userSchema = z.object({
-      name: z.string(),
-      age: z.number().positive(),
+    it('should report a failed write until a write succeeds', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const error = new Error('Storage write failed')
+      const setItem = vi
+        .fn<StorageAdapter['setItem']>()
+        .mockRejectedValueOnce(error)
+        .mockResolvedValue(undefined)
+      const myAtom = persistentAtom(0, {
+        key: 'status-test',
+        storage: { ...mockStorage, setItem },
+      })
+      await myAtom.ready
+
+      await expect(myAtom.setAndFlush(1)).rejects.toThrow(error)
+      expect(myAtom.status.get()).toMatchObject({
+        state: 'error',
+        dirty: true,
+        lastSavedAt: undefined,
+        error,
+      })
+
+      await myAtom.flush()
+      expect(myAtom.status.get()).toMatchObject({
+        state: 'idle',
+        dirty: false,
+        error: undefined,
+      })
     })
 
-    it('should prevent setting a value that fails schema validation', async () => {
+    it('should report a failed hydration', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockStorage.state['status-test'] = 'not json'
+      const myAtom = persistentAtom(0, {
+        key: 'status-test',
+        storage: mockStorage,
+      })
+
+      await expect(myAtom.ready).rejects.toThrow()
+      expect(myAtom.status.get()).toMatchObject({
+        state: 'error',
+        hydrated: false,
+        error: expect.any(Error) as Error,
+      })
+    })
+  })
+
+  describe('Events', () => {
+    const createLogger = () => ({ log: vi.fn(), warn: vi.fn(), error: vi.fn() })
+
+    it('should report hydration, migrations and writes', async () => {
+      mockStorage.state['events-test'] = JSON.stringify({
+        version: 1,
+        data: 'Old Name',
+      })
+      const onHydrated = vi.fn()
+      const onMigrated = vi.fn()
+      const onWrite = vi.fn()
+
       const myAtom = persistentAtom(
-        { name: 'John', age: 30 },
+        { name: '' },
         {
-          key: 'schema-test',
+          key: 'events-test',
           storage: mockStorage,
-          schema: userSchema,
+          version: 2,
+          migrations: { 2: (old: unknown) => ({ name: old as string }) },
+          logger: silentLogger,
+          onHydrated,
+          onMigrated,
+          onWrite,
         }
       )
       await myAtom.ready
 
-      // Try to set an invalid value
-      expect(() =>
-        myAtom.set({ name: 'Invalid', age: -5 } as { name: string; age: number })
-      ).toThrow()
+      expect(onHydrated).toHaveBeenCalledWith({ name: 'Old Name' })
+      expect(onMigrated).toHaveBeenCalledWith(1, 2)
+      // The migrated value is written back
+      expect(onWrite).toHaveBeenCalledWith({ name: 'Old Name' })
 
-      // The atom's value should NOT have changed
-      expect(myAtom.get()).toEqual({ name: 'John', age: 30 })
+      await myAtom.setAndFlush({ name: 'New Name' })
+      expect(onWrite).toHaveBeenLastCalledWith({ name: 'New Name' })
     })
 
-    it('should throw an error during hydration if stored data is invalid', async () => {
-      // Store data that is valid JSON but invalid according to the schema
-      mockStorage.state['schema-test'] = JSON.stringify({
-        version: 1,
-        data: { name: 'Old', age: -99 },
-      })
+    it('should report write errors and validation errors', async () => {
+      const onWriteError = vi.fn()
+      const onValidationError = vi.fn()
+      const error = new Error('Storage write failed')
+      const logger = createLogger()
 
       const myAtom = persistentAtom(
-        { name: 'Default', age: 1 },
+        { age: 0 },
         {
-          key: 'schema-test',
-          storage: mockStorage,
-          schema: userSchema,
+          key: 'events-test',
+          storage: { ...mockStorage, setItem: () => Promise.reject(error) },
+          schema: z.object({ age: z.number().min(0) }),
+          logger,
+          onWriteError,
+          onValidationError,
         }
       )
+      await myAtom.ready
 
-      // Expect the .ready promise to reject with a ZodError
-      await expect(myAtom.ready).rejects.toThrow()
+      expect(() => myAtom.set({ age: -1 })).toThrow()
+      expect(onValidationError).toHaveBeenCalledWith(expect.any(Error), {
+        age: -1,
+      })
+
+      await expect(myAtom.setAndFlush({ age: 30 })).rejects.toThrow(error)
+      expect(onWriteError).toHaveBeenCalledWith(error, { age: 30 })
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to write to mock'),
+        error
+      )
     })
 
-    it('should successfully validate and set correct data', async () => {
+    it('should report invalid stored data and backups', async () => {
+      const onValidationError = vi.fn()
+      const onBackup = vi.fn()
+      const fileStorage: StorageAdapter = {
+        ...mockStorage,
+        filePath: '/tmp/events.json',
+        createBackup: () => Promise.resolve(),
+      }
+      mockStorage.state['events-test'] = JSON.stringify({
+        version: 1,
+        data: { age: 'old' },
+      })
+
       const myAtom = persistentAtom(
-        { name: 'John', age: 30 },
+        { age: 0 },
         {
-          key: 'schema-valid-test',
-          storage: mockStorage,
-          schema: userSchema,
+          key: 'events-test',
+          storage: fileStorage,
+          schema: z.object({ age: z.number() }),
+          logger: silentLogger,
+          onCorruption: () => Promise.resolve({ age: 0 }),
+          onValidationError,
+          onBackup,
         }
       )
       await myAtom.ready
 
-      myAtom.set({ name: 'Jane', age: 25 })
+      expect(onValidationError).toHaveBeenCalledWith(expect.any(Error), {
+        age: 'old',
+      })
+      expect(onBackup).toHaveBeenCalledWith({
+        id: '/tmp/events.json',
+        key: 'events-test',
+        createdAt: expect.any(Number) as number,
+      })
+    })
 
-      expect(myAtom.get()).toEqual({ name: 'Jane', age: 25 })
-      expect(mockStorage.setItem).toHaveBeenCalled()
+    it('should log errors thrown by hooks instead of failing', async () => {
+      const logger = createLogger()
+      const myAtom = persistentAtom(0, {
+        key: 'events-test',
+        storage: mockStorage,
+        logger,
+        onWrite: () => {
+          throw new Error('telemetry is down')
+        },
+      })
+      await myAtom.ready
+
+      await expect(myAtom.setAndFlush(1)).resolves.toBeUndefined()
+      expect(logger.error).toHaveBeenCalledWith(
+        '[persistentAtom] Event hook threw:',
+        new Error('telemetry is down')
+      )
     })
   })
 
-  describe('Migrations', () => {
-    it('should run a migration function to update the data structure', async () => {
-      // v1 data: just a string
-      const v1Data = { version: 1, data: 'Old Name' }
-      mockStorage.state['migration-test'] = JSON.stringify(v1Data)
+  describe('External Changes', () => {
+    const createSubscribableStorage = () => {
+      const storage = createMockStorage()
+      const listeners = new Set<(value: string | null | undefined) => void>()
+      return {
+        ...storage,
+        subscribe: vi.fn(
+          (_: string, callback: (value: string | null | undefined) => void) => {
+            listeners.add(callback)
+            return () => listeners.delete(callback)
+          }
+        ),
+        emit(value: string | null | undefined) {
+          listeners.forEach((listener) => listener(value))
+        },
+      }
+    }
 
-      // v2 schema: an object
-      const v2Schema = z.object({ name: z.string() })
+    it('should update the atom when storage changes elsewhere', async () => {
+      const storage = createSubscribableStorage()
+      const myAtom = persistentAtom('initial', { key: 'test', storage })
+      await myAtom.ready
+      vi.mocked(storage.setItem).mockClear()
 
+      storage.emit(JSON.stringify({ version: 1, data: 'from-other-tab' }))
+      await flushPromises()
+
+      expect(myAtom.get()).toBe('from-other-tab')
+      // The external value must not be echoed back to storage
+      expect(storage.setItem).not.toHaveBeenCalled()
+    })
+
+    it('should run migrations and validation on external changes', async () => {
+      const storage = createSubscribableStorage()
       const myAtom = persistentAtom(
         { name: '' },
         {
-          key: 'migration-test',
-          storage: mockStorage,
-          schema: v2Schema,
+          key: 'test',
+          storage,
+          schema: z.object({ name: z.string() }),
           version: 2,
-          migrations: {
-            2: (oldData: unknown) => {
-              // Migration from string to object
-              return { name: oldData as string }
-            },
-          },
+          migrations: { 2: (old: unknown) => ({ name: old as string }) },
         }
       )
-
       await myAtom.ready
 
-      // The atom should be hydrated with the MIGRATED data
+      storage.emit(JSON.stringify({ version: 1, data: 'Old Name' }))
+      await flushPromises()
+      expect(myAtom.get()).toEqual({ name: 'Old Name' })
+
+      storage.emit(JSON.stringify({ version: 2, data: { name: 42 } }))
+      await flushPromises()
       expect(myAtom.get()).toEqual({ name: 'Old Name' })
     })
 
-    it('should run multiple migrations sequentially', async () => {
-      // v1 data
-      const v1Data = {
-        version: 1,
-        data: { firstName: 'John', lastName: 'Doe' },
-      }
-      mockStorage.state['multi-migration-test'] = JSON.stringify(v1Data)
+    it('should reset to the initial value when the key is removed elsewhere', async () => {
+      const storage = createSubscribableStorage()
+      storage.state['test'] = JSON.stringify({ version: 1, data: 'stored' })
+      const myAtom = persistentAtom('initial', { key: 'test', storage })
+      await myAtom.ready
 
-      const v3Schema = z.object({
-        fullName: z.string(),
-        initials: z.string(),
+      storage.emit(undefined)
+      await flushPromises()
+      expect(myAtom.get()).toBe('initial')
+    })
+
+    it('should ignore notifications about its own writes', async () => {
+      const storage = createSubscribableStorage()
+      const myAtom = persistentAtom('initial', { key: 'test', storage })
+      await myAtom.ready
+      await myAtom.setAndFlush('local')
+      const listener = vi.fn()
+      myAtom.listen(listener)
+
+      storage.emit(JSON.stringify({ version: 1, data: 'local' }))
+      await flushPromises()
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Lifecycle', () => {
+    it('should restore the initial value and delete the stored value on reset', async () => {
+      mockStorage.state['test'] = JSON.stringify({ version: 1, data: 'stored' })
+      const myAtom = persistentAtom('initial', {
+        key: 'test',
+        storage: mockStorage,
       })
+      await myAtom.ready
+      vi.mocked(mockStorage.setItem).mockClear()
 
-      const myAtom = persistentAtom(
-        { fullName: '', initials: '' },
-        {
-          key: 'multi-migration-test',
-          storage: mockStorage,
-          schema: v3Schema,
-          version: 3,
-          migrations: {
-            // v1 -> v2
-            2: (old: unknown) => {
-              const oldData = old as
-                | { firstName: string; lastName: string }
-                | undefined
-              return {
-                fullName: `${oldData?.firstName} ${oldData?.lastName}`,
-              }
-            }, // v2 -> v3
-            3: (old: unknown) => {
-              const oldData = old as { fullName: string }
-              return { ...oldData, initials: 'JD' } // Unsafe return is fixed by typing oldData
-            },
-          },
-        }
-      )
+      await myAtom.reset()
+
+      expect(myAtom.get()).toBe('initial')
+      expect(mockStorage.removeItem).toHaveBeenCalledWith('test')
+      expect(mockStorage.state['test']).toBeUndefined()
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+    })
 
+    it('should store the initial value on reset if the adapter cannot remove', async () => {
+      const { removeItem: _, ...storage } = mockStorage
+      const myAtom = persistentAtom('initial', { key: 'test', storage })
       await myAtom.ready
+      myAtom.set('changed')
 
-      expect(myAtom.get()).toEqual({ fullName: 'John Doe', initials: 'JD' })
+      await myAtom.reset()
+
+      expect(myAtom.get()).toBe('initial')
+      expect(mockStorage.state['test']).toBe(
+        JSON.stringify({ version: 1, data: 'initial' })
+      )
     })
 
-    it('should handle legacy data without version wrapper', async () => {
-      // Old data without version wrapper (version 0)
-      mockStorage.state['legacy-test'] = JSON.stringify('legacy-value')
+    it('should throw if .reset() is called before hydration completes', async () => {
+      const myAtom = persistentAtom('initial', {
+        key: 'test',
+        storage: mockStorage,
+      })
+      await expect(myAtom.reset()).rejects.toThrow(
+        /Cannot call .reset\(\) before hydration complete/
+      )
+    })
 
-      const v2Schema = z.object({ value: z.string() })
+    describe('destroy', () => {
+      beforeEach(() => vi.useFakeTimers())
+      afterEach(() => vi.useRealTimers())
 
-      const myAtom = persistentAtom(
-        { value: '' },
-        {
-          key: 'legacy-test',
+      it('should flush a pending debounced write', async () => {
+        const myAtom = persistentAtom(0, {
+          key: 'test',
           storage: mockStorage,
-          schema: v2Schema,
-          version: 2,
-          migrations: {
-            1: (old: unknown) => ({ value: old as string }),
-            2: (old: unknown) => old as { value: string }, // No change from v1 to v2
-          },
-        }
-      )
+          debounceMs: 100,
+        })
+        await myAtom.ready
+        myAtom.set(1)
 
-      await myAtom.ready
+        await myAtom.destroy()
 
-      expect(myAtom.get()).toEqual({ value: 'legacy-value' })
+        expect(mockStorage.state['test']).toBe(
+          JSON.stringify({ version: 1, data: 1 })
+        )
+      })
+
+      it('should drop a pending debounced write when flush is false', async () => {
+        const myAtom = persistentAtom(0, {
+          key: 'test',
+          storage: mockStorage,
+          debounceMs: 100,
+        })
+        await myAtom.ready
+        myAtom.set(1)
+
+        await myAtom.destroy({ flush: false })
+        await vi.advanceTimersByTimeAsync(100)
+
+        expect(mockStorage.setItem).not.toHaveBeenCalled()
+      })
+
+      it('should stop persisting and listening to storage', async () => {
+        const unsubscribe = vi.fn()
+        const storage = { ...mockStorage, subscribe: vi.fn(() => unsubscribe) }
+        const myAtom = persistentAtom(0, { key: 'test', storage })
+        await myAtom.ready
+        vi.mocked(storage.setItem).mockClear()
+
+        await myAtom.destroy()
+        myAtom.set(1)
+
+        expect(unsubscribe).toHaveBeenCalled()
+        expect(storage.setItem).not.toHaveBeenCalled()
+      })
+    })
+  })
+
+  describe('Partial Persistence', () => {
+    type SearchState = { query: string; loading: boolean; results: string[] }
+    const initialState: SearchState = {
+      query: '',
+      loading: false,
+      results: [],
+    }
+    const persistedSchema = z.object({ results: z.array(z.string()) })
+
+    it('should persist only the fields picked by partialize', async () => {
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        partialize: ({ results }) => ({ results }),
+      })
+      await myAtom.ready
+
+      myAtom.set({ query: 'zod', loading: true, results: ['a'] })
+
+      expect(mockStorage.state['search']).toBe(
+        JSON.stringify({ version: 1, data: { results: ['a'] } })
+      )
+    })
+
+    it('should leave out omitted fields', async () => {
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        omit: ['query', 'loading'],
+      })
+      await myAtom.ready
+
+      myAtom.set({ query: 'zod', loading: true, results: ['a'] })
+
+      expect(mockStorage.state['search']).toBe(
+        JSON.stringify({ version: 1, data: { results: ['a'] } })
+      )
+    })
+
+    it('should merge the stored subset over the initial value on hydration', async () => {
+      mockStorage.state['search'] = JSON.stringify({
+        version: 1,
+        data: { results: ['stored'] },
+      })
+
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        schema: persistedSchema,
+        omit: ['query', 'loading'],
+      })
+      await myAtom.ready
+
+      expect(myAtom.get()).toEqual({
+        query: '',
+        loading: false,
+        results: ['stored'],
+      })
+    })
+
+    it('should use a custom merge function', async () => {
+      mockStorage.state['search'] = JSON.stringify({
+        version: 1,
+        data: ['stored'],
+      })
+
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        partialize: (state) => state.results,
+        merge: (current, results) => ({ ...current, results }),
+      })
+      await myAtom.ready
+
+      expect(myAtom.get().results).toEqual(['stored'])
+    })
+
+    it('should validate the persisted shape, not the full value', async () => {
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        schema: persistedSchema,
+        omit: ['query', 'loading'],
+      })
+      await myAtom.ready
+
+      expect(() =>
+        myAtom.set({ query: 'zod', loading: true, results: ['a'] })
+      ).not.toThrow()
+      expect(() =>
+        myAtom.set({
+          ...initialState,
+          results: [42] as unknown as string[],
+        })
+      ).toThrow()
+    })
+
+    it('should not write when only transient fields change', async () => {
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        omit: ['query', 'loading'],
+      })
+      await myAtom.ready
+      myAtom.set({ ...initialState, results: ['a'] })
+      vi.mocked(mockStorage.setItem).mockClear()
+
+      myAtom.set({ ...myAtom.get(), loading: true })
+      myAtom.set({ ...myAtom.get(), query: 'zod' })
+
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+    })
+
+    it('should skip writes with a codec that encodes differently every time', async () => {
+      let nonce = 0
+      // Like encryption with a fresh IV for every encode
+      const codec = {
+        encode: vi.fn((value: unknown) =>
+          JSON.stringify({ ...(value as object), nonce: nonce++ })
+        ),
+        decode: (raw: string) => JSON.parse(raw) as unknown,
+      }
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        omit: ['query', 'loading'],
+        codec,
+      })
+      await myAtom.ready
+      await myAtom.setAndFlush({ ...initialState, results: ['a'] })
+      vi.mocked(mockStorage.setItem).mockClear()
+      codec.encode.mockClear()
+
+      await myAtom.setAndFlush({ ...myAtom.get(), query: 'zod' })
+
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+      expect(codec.encode).not.toHaveBeenCalled()
+    })
+
+    it('should not refresh the expiry when only transient fields change', async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 })
+      const myAtom = persistentAtom(initialState, {
+        key: 'search',
+        storage: mockStorage,
+        omit: ['query', 'loading'],
+        ttlMs: 60_000,
+        metadata: true,
+      })
+      await myAtom.ready
+      await myAtom.setAndFlush({ ...initialState, results: ['a'] })
+      vi.mocked(mockStorage.setItem).mockClear()
+
+      vi.setSystemTime(1_700_000_030_000)
+      await myAtom.setAndFlush({ ...myAtom.get(), query: 'zod' })
+
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+      expect(myAtom.expiresAt.get()).toBe(1_700_000_060_000)
+      expect(myAtom.metadata.get()?.revision).toBe(1)
+
+      await myAtom.setAndFlush({ ...myAtom.get(), results: ['b'] })
+      expect(mockStorage.setItem).toHaveBeenCalledTimes(1)
+      expect(myAtom.expiresAt.get()).toBe(1_700_000_090_000)
+      vi.useRealTimers()
+    })
+  })
+
+  describe('Codecs', () => {
+    it('should round-trip rich types with richJsonCodec', async () => {
+      const value = {
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+        tags: new Set(['a', 'b']),
+        counts: new Map([['x', 1n]]),
+        note: undefined,
+      }
+      const writer = persistentAtom(value, {
+        key: 'rich',
+        storage: mockStorage,
+        codec: richJsonCodec,
+      })
+      await writer.ready
+      await writer.flush()
+
+      const reader = persistentAtom<typeof value | null>(null, {
+        key: 'rich',
+        storage: mockStorage,
+        codec: richJsonCodec,
+      })
+      await reader.ready
+
+      expect(reader.get()).toEqual(value)
+      expect(reader.get()).toHaveProperty('note', undefined)
+    })
+
+    it('should run migrations on top of a compressed codec', async () => {
+      const codec = pipeCodec(jsonCodec, gzip())
+      mockStorage.state['compressed'] = await codec.encode({
+        version: 1,
+        data: 'Old Name',
+      })
+
+      const schema = z.object({ name: z.string() })
+      const myAtom = persistentAtom(
+        { name: '' },
+        {
+          key: 'compressed',
+          storage: mockStorage,
+          codec,
+          schema,
+          version: 2,
+          migrations: { 2: (old: unknown) => ({ name: old as string }) },
+        }
+      )
+      await myAtom.ready
+      expect(myAtom.get()).toEqual({ name: 'Old Name' })
+
+      await myAtom.flush()
+      expect(mockStorage.state['compressed']).toMatch(/^gzip:/)
+      expect(await codec.decode(mockStorage.state['compressed'])).toEqual({
+        version: 2,
+        data: { name: 'Old Name' },
+        fingerprint: schemaFingerprint(schema),
+      })
+    })
+
+    it('should treat data the codec cannot decode as corrupted', async () => {
+      mockStorage.state['compressed'] = 'gzip:not-base64!'
+
+      const myAtom = persistentAtom('initial', {
+        key: 'compressed',
+        storage: mockStorage,
+        codec: pipeCodec(jsonCodec, gzip()),
+      })
+
+      await expect(myAtom.ready).rejects.toThrow(/Failed to parse stored data/)
+    })
+  })
+
+  describe('Error Handling', () => {
+    it('should create a backup of a corrupted file on hydration error', async () => {
+      const corruptedData = 'this-is-not-valid-json'
+      const corruptedFilePath = '/mock/support/path/corrupted.json'
+
+      vi.mocked(fs.readFile).mockResolvedValue(Buffer.from(corruptedData))
+
+      const myAtom = persistentAtom('initial', {
+        key: 'corrupted-atom',
+        storage: createFileAdapter(corruptedFilePath),
+      })
+
+      await expect(myAtom.ready).rejects.toThrow()
+
+      expect(fs.rename).toHaveBeenCalledWith(
+        corruptedFilePath,
+        expect.stringContaining('.bak')
+      )
+    })
+
+    it('should use the onCorruption handler to provide a fallback value', async () => {
+      mockStorage.state['corrupt-key'] = 'not-json'
+
+      const myAtom = persistentAtom(
+        { status: 'default' },
+        {
+          key: 'corrupt-key',
+          storage: mockStorage,
+          onCorruption: (error) => {
+            console.log('Corruption handled:', error.message)
+            return Promise.resolve({ status: 'recovered' })
+          },
+        }
+      )
+
+      // The .ready promise should now RESOLVE successfully
+      await myAtom.ready
+
+      // The atom should have the fallback value
+      expect(myAtom.get()).toEqual({ status: 'recovered' })
+
+      // And it should write the recovered value back to storage
+      expect(mockStorage.setItem).toHaveBeenCalledWith(
+        'corrupt-key',
+        expect.stringContaining('recovered')
+      )
+    })
+  })
+
+  describe('Zod Schema Validation', () => {
+    const userSchema = z.object({
+      name: z.string(),
+      age: z.number().positive(),
+    })
+
+    it('should prevent setting a value that fails schema validation', async () => {
+      const myAtom = persistentAtom(
+        { name: 'John', age: 30 },
+        {
+          key: 'schema-test',
+          storage: mockStorage,
+          schema: userSchema,
+        }
+      )
+      await myAtom.ready
+
+      // Try to set an invalid value
+      expect(() =>
+        myAtom.set({ name: 'Invalid', age: -5 } as { name: string; age: number })
+      ).toThrow()
+
+      // The atom's value should NOT have changed
+      expect(myAtom.get()).toEqual({ name: 'John', age: 30 })
+    })
+
+    it('should throw an error during hydration if stored data is invalid', async () => {
+      // Store data that is valid JSON but invalid according to the schema
+      mockStorage.state['schema-test'] = JSON.stringify({
+        version: 1,
+        data: { name: 'Old', age: -99 },
+      })
+
+      const myAtom = persistentAtom(
+        { name: 'Default', age: 1 },
+        {
+          key: 'schema-test',
+          storage: mockStorage,
+          schema: userSchema,
+        }
+      )
+
+      // Expect the .ready promise to reject with a ZodError
+      await expect(myAtom.ready).rejects.toThrow()
+    })
+
+    it('should successfully validate and set correct data', async () => {
+      const myAtom = persistentAtom(
+        { name: 'John', age: 30 },
+        {
+          key: 'schema-valid-test',
+          storage: mockStorage,
+          schema: userSchema,
+        }
+      )
+      await myAtom.ready
+
+      myAtom.set({ name: 'Jane', age: 25 })
+
+      expect(myAtom.get()).toEqual({ name: 'Jane', age: 25 })
+      expect(mockStorage.setItem).toHaveBeenCalled()
+    })
+  })
+
+  describe('Migrations', () => {
+    it('should run a migration function to update the data structure', async () => {
+      // v1 data: just a string
+      const v1Data = { version: 1, data: 'Old Name' }
+      mockStorage.state['migration-test'] = JSON.stringify(v1Data)
+
+      // v2 schema: an object
+      const v2Schema = z.object({ name: z.string() })
+
+      const myAtom = persistentAtom(
+        { name: '' },
+        {
+          key: 'migration-test',
+          storage: mockStorage,
+          schema: v2Schema,
+          version: 2,
+          migrations: {
+            2: (oldData: unknown) => {
+              // Migration from string to object
+              return { name: oldData as string }
+            },
+          },
+        }
+      )
+
+      await myAtom.ready
+
+      // The atom should be hydrated with the MIGRATED data
+      expect(myAtom.get()).toEqual({ name: 'Old Name' })
+    })
+
+    it('should run multiple migrations sequentially', async () => {
+      // v1 data
+      const v1Data = {
+        version: 1,
+        data: { firstName: 'John', lastName: 'Doe' },
+      }
+      mockStorage.state['multi-migration-test'] = JSON.stringify(v1Data)
+
+      const v3Schema = z.object({
+        fullName: z.string(),
+        initials: z.string(),
+      })
+
+      const myAtom = persistentAtom(
+        { fullName: '', initials: '' },
+        {
+          key: 'multi-migration-test',
+          storage: mockStorage,
+          schema: v3Schema,
+          version: 3,
+          migrations: {
+            // v1 -> v2
+            2: (old: unknown) => {
+              const oldData = old as
+                | { firstName: string; lastName: string }
+                | undefined
+              return {
+                fullName: `${oldData?.firstName} ${oldData?.lastName}`,
+              }
+            }, // v2 -> v3
+            3: (old: unknown) => {
+              const oldData = old as { fullName: string }
+              return { ...oldData, initials: 'JD' } // Unsafe return is fixed by typing oldData
+            },
+          },
+        }
+      )
+
+      await myAtom.ready
+
+      expect(myAtom.get()).toEqual({ fullName: 'John Doe', initials: 'JD' })
+    })
+
+    it('should handle legacy data without version wrapper', async () => {
+      // Old data without version wrapper (version 0)
+      mockStorage.state['legacy-test'] = JSON.stringify('legacy-value')
+
+      const v2Schema = z.object({ value: z.string() })
+
+      const myAtom = persistentAtom(
+        { value: '' },
+        {
+          key: 'legacy-test',
+          storage: mockStorage,
+          schema: v2Schema,
+          version: 2,
+          migrations: {
+            1: (old: unknown) => ({ value: old as string }),
+            2: (old: unknown) => old as { value: string }, // No change from v1 to v2
+          },
+        }
+      )
+
+      await myAtom.ready
+
+      expect(myAtom.get()).toEqual({ value: 'legacy-value' })
+    })
+
+    it('should save migrated data at the current version after hydration', async () => {
+      mockStorage.state['write-back-test'] = JSON.stringify({
+        version: 1,
+        data: 'Old Name',
+      })
+
+      const myAtom = persistentAtom(
+        { name: '' },
+        {
+          key: 'write-back-test',
+          storage: mockStorage,
+          version: 2,
+          migrations: { 2: (old: unknown) => ({ name: old as string }) },
+          backups: { beforeMigration: false },
+        }
+      )
+
+      await myAtom.ready
+
+      expect(mockStorage.setItem).toHaveBeenCalledTimes(1)
+      expect(mockStorage.state['write-back-test']).toBe(
+        JSON.stringify({ version: 2, data: { name: 'Old Name' } })
+      )
+    })
+
+    it('should not write data that is already at the current version', async () => {
+      mockStorage.state['no-write-back-test'] = JSON.stringify({
+        version: 1,
+        data: 'current',
+      })
+
+      const myAtom = persistentAtom('initial', {
+        key: 'no-write-back-test',
+        storage: mockStorage,
+      })
+
+      await myAtom.ready
+
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+    })
+
+    it('should run async migrations with access to the storage', async () => {
+      mockStorage.state['old-name-key'] = 'Old Name'
+      mockStorage.state['async-migration-test'] = JSON.stringify({
+        version: 1,
+        data: {},
+      })
+
+      const myAtom = persistentAtom(
+        { name: '' },
+        {
+          key: 'async-migration-test',
+          storage: mockStorage,
+          version: 2,
+          migrations: {
+            // v2 moved the name from its own key into the object
+            2: async (old, { storage }) => ({
+              ...(old as object),
+              name: await storage.getItem('old-name-key'),
+            }),
+          },
+        }
+      )
+
+      await myAtom.ready
+
+      expect(myAtom.get()).toEqual({ name: 'Old Name' })
+    })
+
+    it('should validate every step against the schema of its version', async () => {
+      mockStorage.state['version-schema-test'] = JSON.stringify({
+        version: 1,
+        data: ['a', 'b'],
+      })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const myAtom = persistentAtom<{ items: string[] }>(
+        { items: [] },
+        {
+          key: 'version-schema-test',
+          storage: mockStorage,
+          version: 3,
+          versionSchemas: {
+            1: z.array(z.string()),
+            2: z.object({ items: z.array(z.string()) }),
+          },
+          migrations: {
+            // Bug: returns the wrong shape for version 2
+            2: (old) => ({ list: old }),
+            3: (old) => old,
+          },
+        }
+      )
+
+      await expect(myAtom.ready).rejects.toThrow(
+        /Migration to version 2 failed/
+      )
+    })
+
+    it('should build a typed migration chain', async () => {
+      mockStorage.state['chain-test'] = JSON.stringify({
+        version: 1,
+        data: ['Milk', 'Eggs'],
+      })
+
+      const v1Schema = z.array(z.string())
+      const v2Schema = z.array(z.object({ name: z.string() }))
+      const v3Schema = z.array(
+        z.object({ name: z.string(), done: z.boolean() })
+      )
+
+      const chain = migrationChain(v1Schema)
+        .to(v2Schema, (v1) => v1.map((name) => ({ name })))
+        .to(v3Schema, (v2) =>
+          Promise.resolve(v2.map((item) => ({ ...item, done: false })))
+        )
+
+      const myAtom = persistentAtom<z.infer<typeof v3Schema>>([], {
+        key: 'chain-test',
+        storage: mockStorage,
+        schema: v3Schema,
+        ...chain,
+      })
+
+      await myAtom.ready
+
+      expect(chain.version).toBe(3)
+      expect(myAtom.get()).toEqual([
+        { name: 'Milk', done: false },
+        { name: 'Eggs', done: false },
+      ])
+    })
+  })
+
+  describe('Backups', () => {
+    it('should back up the stored data before saving migrated data', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+      const old = JSON.stringify({ version: 1, data: 'Old Name' })
+      mockStorage.state['backup-test'] = old
+
+      const myAtom = persistentAtom(
+        { name: '' },
+        {
+          key: 'backup-test',
+          storage: mockStorage,
+          version: 2,
+          migrations: { 2: (data: unknown) => ({ name: data as string }) },
+        }
+      )
+      await myAtom.ready
+      vi.mocked(Date.now).mockRestore()
+
+      const storage = withBackups(mockStorage)
+      const backups = await storage.listBackups('backup-test')
+      expect(backups).toEqual([
+        {
+          id: 'backup-test.bak.1700000000000',
+          key: 'backup-test',
+          createdAt: 1_700_000_000_000,
+        },
+      ])
+
+      // A bad migration can be rolled back
+      await storage.restoreBackup('backup-test', backups[0].id)
+      expect(mockStorage.state['backup-test']).toBe(old)
+    })
+
+    it('should back up corrupted data for adapters without a file', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockStorage.state['corrupt-test'] = 'not-json'
+
+      const myAtom = persistentAtom('initial', {
+        key: 'corrupt-test',
+        storage: mockStorage,
+        onCorruption: () => Promise.resolve('fallback'),
+      })
+      await myAtom.ready
+
+      const [backup] =
+        await withBackups(mockStorage).listBackups('corrupt-test')
+      expect(mockStorage.state[backup.id]).toBe('not-json')
+    })
+
+    it('should only keep as many backups as the retention policy allows', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const storage = withBackups(mockStorage)
+      let now = 1_000
+      vi.spyOn(Date, 'now').mockImplementation(() => now)
+      mockStorage.state['retention-test'] = '"value"'
+      for (let i = 0; i < 3; i++) {
+        await storage.backup('retention-test')
+        now += 1_000
+      }
+
+      await pruneBackups(storage, 'retention-test', {
+        maxCount: 2,
+        maxAgeMs: 1_500,
+      })
+      vi.mocked(Date.now).mockRestore()
+
+      // The oldest exceeds maxCount, the second oldest maxAgeMs
+      expect(await storage.listBackups('retention-test')).toEqual([
+        expect.objectContaining({ createdAt: 3_000 }),
+      ])
+      expect(mockStorage.state['retention-test.bak.1000']).toBeUndefined()
+    })
+  })
+
+  describe('History', () => {
+    it('should reject adapters that keep a single value', () => {
+      expect(() =>
+        persistentAtom(0, {
+          key: 'history-test',
+          storage: createFileAdapter('/data/history-test.json'),
+          history: true,
+        })
+      ).toThrow(
+        'The "history" option needs an adapter that stores several keys'
+      )
+    })
+
+    it('should undo and redo changes', async () => {
+      const myAtom = persistentAtom(0, {
+        key: 'history-test',
+        storage: mockStorage,
+        history: true,
+      })
+      await myAtom.ready
+      expect(myAtom.canUndo.get()).toBe(false)
+
+      myAtom.set(1)
+      myAtom.set(2)
+      myAtom.undo()
+      expect(myAtom.get()).toBe(1)
+      myAtom.undo()
+      expect(myAtom.get()).toBe(0)
+      expect(myAtom.canUndo.get()).toBe(false)
+
+      myAtom.redo()
+      expect(myAtom.get()).toBe(1)
+      expect(myAtom.canRedo.get()).toBe(true)
+
+      // A new change discards the undone ones
+      myAtom.set(5)
+      expect(myAtom.canRedo.get()).toBe(false)
+      await myAtom.flush()
+      expect(mockStorage.state['history-test']).toBe(
+        JSON.stringify({ version: 1, data: 5 })
+      )
+    })
+
+    it('should group changes made within the debounce window', async () => {
+      vi.useFakeTimers()
+      const myAtom = persistentAtom('', {
+        key: 'history-test',
+        storage: mockStorage,
+        debounceMs: 100,
+        history: { limit: 2 },
+      })
+      await myAtom.ready
+
+      for (const text of ['H', 'He', 'Hey']) {
+        myAtom.set(text)
+        await vi.advanceTimersByTimeAsync(50)
+      }
+      await vi.advanceTimersByTimeAsync(200)
+      myAtom.set('Hey!')
+      await vi.advanceTimersByTimeAsync(200)
+      myAtom.set('Hey!!')
+      vi.useRealTimers()
+
+      myAtom.undo()
+      expect(myAtom.get()).toBe('Hey!')
+      myAtom.undo()
+      expect(myAtom.get()).toBe('Hey')
+      // Older steps are dropped beyond the limit
+      expect(myAtom.canUndo.get()).toBe(false)
+    })
+
+    it('should keep the history across restarts', async () => {
+      const options = {
+        key: 'history-test',
+        storage: mockStorage,
+        schema: z.number(),
+        history: true,
+      }
+      const first = persistentAtom(0, options)
+      await first.ready
+      first.set(1)
+      await first.setAndFlush(2)
+
+      const second = persistentAtom(0, options)
+      await second.ready
+      expect(second.get()).toBe(2)
+      second.undo()
+      expect(second.get()).toBe(1)
+    })
+
+    it('should drop stored history that does not match the schema', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      mockStorage.state['history-test'] = JSON.stringify({
+        version: 1,
+        data: 2,
+      })
+      mockStorage.state['history-test.history'] = JSON.stringify({
+        version: 1,
+        data: { past: ['not a number'], future: [] },
+      })
+
+      const myAtom = persistentAtom(0, {
+        key: 'history-test',
+        storage: mockStorage,
+        schema: z.number(),
+        history: true,
+      })
+      await myAtom.ready
+
+      expect(myAtom.get()).toBe(2)
+      expect(myAtom.canUndo.get()).toBe(false)
+    })
+  })
+
+  describe('Expiration', () => {
+    beforeEach(() => vi.useFakeTimers({ now: 1_700_000_000_000 }))
+    afterEach(() => vi.useRealTimers())
+
+    it('should store the write time and expose the expiry', async () => {
+      const myAtom = persistentAtom('', {
+        key: 'ttl-test',
+        storage: mockStorage,
+        ttlMs: 60_000,
+      })
+      await myAtom.ready
+      await myAtom.setAndFlush('cached')
+
+      expect(mockStorage.state['ttl-test']).toBe(
+        JSON.stringify({
+          version: 1,
+          data: 'cached',
+          updatedAt: 1_700_000_000_000,
+        })
+      )
+      expect(myAtom.expiresAt.get()).toBe(1_700_000_060_000)
+    })
+
+    it('should use fresh data and discard expired data', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const store = (updatedAt?: number) => {
+        mockStorage.state['ttl-test'] = JSON.stringify({
+          version: 1,
+          data: 'cached',
+          updatedAt,
+        })
+      }
+      const create = () =>
+        persistentAtom('initial', {
+          key: 'ttl-test',
+          storage: mockStorage,
+          ttlMs: 60_000,
+        })
+
+      store(Date.now() - 30_000)
+      const fresh = create()
+      await fresh.ready
+      expect(fresh.get()).toBe('cached')
+      expect(fresh.expiresAt.get()).toBe(Date.now() + 30_000)
+
+      store(Date.now() - 60_000)
+      const expired = create()
+      await expired.ready
+      expect(expired.get()).toBe('initial')
+      expect(expired.expiresAt.get()).toBeUndefined()
+
+      // Data without a write time is of unknown age
+      store(undefined)
+      const unknown = create()
+      await unknown.ready
+      expect(unknown.get()).toBe('initial')
+    })
+
+    it('should serve expired data while revalidating it', async () => {
+      mockStorage.state['ttl-test'] = JSON.stringify({
+        version: 1,
+        data: 'stale',
+        updatedAt: Date.now() - 120_000,
+      })
+      let resolve!: (value: string) => void
+      const revalidate = vi.fn(() => new Promise<string>((r) => (resolve = r)))
+
+      const myAtom = persistentAtom('initial', {
+        key: 'ttl-test',
+        storage: mockStorage,
+        ttlMs: 60_000,
+        revalidate,
+      })
+      await myAtom.ready
+      expect(myAtom.get()).toBe('stale')
+      await vi.advanceTimersByTimeAsync(0)
+      expect(revalidate).toHaveBeenCalledWith('stale')
+
+      resolve('fresh')
+      await myAtom.flush()
+      expect(myAtom.get()).toBe('fresh')
+      expect(mockStorage.state['ttl-test']).toBe(
+        JSON.stringify({ version: 1, data: 'fresh', updatedAt: Date.now() })
+      )
+    })
+  })
+
+  describe('Checksums and Metadata', () => {
+    it('should treat data that does not match its checksum as corrupted', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const writer = persistentAtom('', {
+        key: 'checksum-test',
+        storage: mockStorage,
+        checksum: true,
+      })
+      await writer.ready
+      await writer.setAndFlush('saved')
+
+      const stored = JSON.parse(mockStorage.state['checksum-test']) as {
+        data: string
+        checksum: string
+      }
+      expect(stored.checksum).toMatch(/^[0-9a-f]{16}$/)
+
+      // Edited by hand, keeping the old checksum
+      mockStorage.state['checksum-test'] = JSON.stringify({
+        ...stored,
+        data: 'edited',
+      })
+      const onCorruption = vi.fn(() => Promise.resolve('fallback'))
+      const reader = persistentAtom('', {
+        key: 'checksum-test',
+        storage: mockStorage,
+        onCorruption,
+      })
+      await reader.ready
+
+      expect(reader.get()).toBe('fallback')
+      expect(onCorruption).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining(
+            'Stored data does not match its checksum'
+          ) as string,
+        })
+      )
+    })
+
+    it('should cover the contents of a Map in the checksum', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const options = {
+        key: 'checksum-test',
+        storage: mockStorage,
+        codec: richJsonCodec,
+        checksum: true,
+      }
+      const writer = persistentAtom(new Map<string, number>(), options)
+      await writer.ready
+      await writer.setAndFlush(new Map([['a', 1]]))
+
+      const valid = persistentAtom(new Map<string, number>(), options)
+      await valid.ready
+      expect(valid.get()).toEqual(new Map([['a', 1]]))
+
+      mockStorage.state['checksum-test'] = mockStorage.state[
+        'checksum-test'
+      ].replace('["a",1]', '["a",2]')
+      const onCorruption = vi.fn(() => Promise.resolve(new Map()))
+      const edited = persistentAtom(new Map<string, number>(), {
+        ...options,
+        onCorruption,
+      })
+      await edited.ready
+
+      expect(onCorruption).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining(
+            'Stored data does not match its checksum'
+          ) as string,
+        })
+      )
+    })
+
+    it('should store the write metadata and expose it', async () => {
+      vi.useFakeTimers({ now: 1_700_000_000_000 })
+      try {
+        const create = () =>
+          persistentAtom('', {
+            key: 'metadata-test',
+            storage: mockStorage,
+            metadata: { writer: 'tab-1' },
+          })
+        const first = create()
+        await first.ready
+        expect(first.metadata.get()).toBeUndefined()
+
+        await first.setAndFlush('a')
+        await first.setAndFlush('b')
+        const metadata = {
+          version: 1,
+          updatedAt: 1_700_000_000_000,
+          revision: 2,
+          writer: 'tab-1',
+        }
+        expect(first.metadata.get()).toEqual(metadata)
+        expect(JSON.parse(mockStorage.state['metadata-test'])).toEqual({
+          ...metadata,
+          data: 'b',
+        })
+
+        // The revision keeps counting after a reload
+        const second = create()
+        await second.ready
+        expect(second.metadata.get()).toEqual(metadata)
+        await second.setAndFlush('c')
+        expect(second.metadata.get()).toMatchObject({ revision: 3 })
+
+        await second.reset()
+        expect(second.metadata.get()).toBeUndefined()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('Seeding', () => {
+    it('should use the seeded value until a stored value is loaded', async () => {
+      mockStorage.state['seed-test'] = JSON.stringify({
+        version: 1,
+        data: 'stored',
+      })
+      const myAtom = persistentAtom('initial', {
+        key: 'seed-test',
+        storage: mockStorage,
+      })
+
+      myAtom.seed('from server')
+      expect(myAtom.get()).toBe('from server')
+      await myAtom.ready
+      expect(myAtom.get()).toBe('stored')
+
+      myAtom.seed('ignored')
+      expect(myAtom.get()).toBe('stored')
+    })
+
+    it('should keep the seeded value without writing it', async () => {
+      const myAtom = persistentAtom('initial', {
+        key: 'seed-test',
+        storage: mockStorage,
+      })
+
+      myAtom.seed('from server')
+      await myAtom.ready
+      expect(myAtom.get()).toBe('from server')
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Future Versions', () => {
+    const v3Data = {
+      version: 3,
+      data: { fullName: 'John Doe', initials: 'JD' },
+    }
+
+    it('should use newer data read-only by default', async () => {
+      mockStorage.state['future-test'] = JSON.stringify(v3Data)
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const myAtom = persistentAtom(
+        { fullName: '' },
+        {
+          key: 'future-test',
+          storage: mockStorage,
+          schema: z.object({ fullName: z.string() }),
+          version: 2,
+        }
+      )
+
+      await myAtom.ready
+      expect(myAtom.get()).toEqual({ fullName: 'John Doe' })
+
+      await myAtom.setAndFlush({ fullName: 'Jane Doe' })
+      await myAtom.reset()
+
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+      expect(mockStorage.removeItem).not.toHaveBeenCalled()
+      expect(mockStorage.state['future-test']).toBe(JSON.stringify(v3Data))
+      warn.mockRestore()
+    })
+
+    it('should keep the initial value when newer data does not match the schema', async () => {
+      mockStorage.state['future-test'] = JSON.stringify(v3Data)
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const myAtom = persistentAtom(
+        { name: 'Initial' },
+        {
+          key: 'future-test',
+          storage: mockStorage,
+          schema: z.object({ name: z.string() }),
+          version: 2,
+        }
+      )
+
+      await myAtom.ready
+      expect(myAtom.get()).toEqual({ name: 'Initial' })
+      expect(mockStorage.state['future-test']).toBe(JSON.stringify(v3Data))
+      warn.mockRestore()
+    })
+
+    it('should treat newer data as corrupted when onFutureVersion is "corrupt"', async () => {
+      mockStorage.state['future-test'] = JSON.stringify(v3Data)
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const onCorruption = vi.fn(() =>
+        Promise.resolve({ fullName: 'Fallback' })
+      )
+
+      const myAtom = persistentAtom(
+        { fullName: '' },
+        {
+          key: 'future-test',
+          storage: mockStorage,
+          version: 2,
+          onFutureVersion: 'corrupt',
+          onCorruption,
+        }
+      )
+
+      await myAtom.ready
+      expect(onCorruption).toHaveBeenCalledTimes(1)
+      expect(onCorruption.mock.calls[0]).toEqual([
+        new Error(
+          'Stored data for key "future-test" has version 3, newer than the supported version 2'
+        ),
+      ])
+      expect(myAtom.get()).toEqual({ fullName: 'Fallback' })
+    })
+
+    it('should run down-migrations when onFutureVersion is "downgrade"', async () => {
+      mockStorage.state['future-test'] = JSON.stringify(v3Data)
+
+      const schema = z.object({ firstName: z.string(), lastName: z.string() })
+      const myAtom = persistentAtom(
+        { firstName: '', lastName: '' },
+        {
+          key: 'future-test',
+          storage: mockStorage,
+          schema,
+          version: 1,
+          onFutureVersion: 'downgrade',
+          downMigrations: {
+            // v3 -> v2
+            3: (old: unknown) => {
+              const { fullName } = old as { fullName: string }
+              return { fullName }
+            },
+            // v2 -> v1
+            2: (old: unknown) => {
+              const [firstName, lastName] = (
+                old as { fullName: string }
+              ).fullName.split(' ')
+              return { firstName, lastName }
+            },
+          },
+        }
+      )
+
+      await myAtom.ready
+      expect(myAtom.get()).toEqual({ firstName: 'John', lastName: 'Doe' })
+
+      await myAtom.flush()
+      expect(JSON.parse(mockStorage.state['future-test'])).toEqual({
+        version: 1,
+        data: { firstName: 'John', lastName: 'Doe' },
+        fingerprint: schemaFingerprint(schema),
+      })
     })
   })
 })
@@ -0,0 +1,392 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { z } from 'zod'
+
+import { persistentMap, schemaFingerprint } from '../index'
+import { createMemoryAdapter } from '../testing'
+
+const createMockStorage = () => {
+  const storage = createMemoryAdapter({}, 'mock')
+  return {
+    ...storage,
+    getItem: vi.fn(storage.getItem),
+    setItem: vi.fn(storage.setItem),
+    removeItem: vi.fn(storage.removeItem),
+  }
+}
+
+const settingsSchema = z.object({
+  theme: z.enum(['light', 'dark']),
+  fontSize: z.number().positive(),
+})
+type Settings = z.infer<typeof settingsSchema>
+const fingerprint = schemaFingerprint(settingsSchema)
+const defaults: Settings = { theme: 'light', fontSize: 14 }
+
+// v1 stored euros, v2 stores cents
+const toCents = (old: unknown) =>
+  Object.fromEntries(
+    Object.entries(old as Record<string, number>).map(([name, euros]) => [
+      name,
+      euros * 100,
+    ])
+  )
+
+describe('persistentMap', () => {
+  let mockStorage: ReturnType<typeof createMockStorage>
+
+  beforeEach(() => {
+    mockStorage = createMockStorage()
+  })
+
+  it('should hydrate each field from its own key', async () => {
+    mockStorage.state['settings:theme'] = JSON.stringify({
+      version: 1,
+      data: 'dark',
+    })
+
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+      schema: settingsSchema,
+    })
+    await $settings.ready
+
+    // Fields that were never stored keep their initial value
+    expect($settings.get()).toEqual({ theme: 'dark', fontSize: 14 })
+    expect(mockStorage.setItem).not.toHaveBeenCalled()
+  })
+
+  it('should only write the field changed by setKey', async () => {
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+    })
+    await $settings.ready
+
+    $settings.setKey('fontSize', 16)
+    await $settings.flush()
+
+    expect(mockStorage.setItem).toHaveBeenCalledTimes(1)
+    expect(mockStorage.setItem).toHaveBeenCalledWith(
+      'settings:fontSize',
+      JSON.stringify({ version: 1, data: 16 })
+    )
+  })
+
+  it('should only write the fields changed by set', async () => {
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+    })
+    await $settings.ready
+
+    await $settings.setAndFlush({ theme: 'dark', fontSize: 14 })
+
+    expect(mockStorage.setItem).toHaveBeenCalledTimes(1)
+    expect(mockStorage.setItem).toHaveBeenCalledWith(
+      'settings:theme',
+      JSON.stringify({ version: 1, data: 'dark' })
+    )
+  })
+
+  it('should validate setKey against the field schema', async () => {
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+      schema: settingsSchema,
+    })
+    await $settings.ready
+
+    expect(() => $settings.setKey('fontSize', -1)).toThrow()
+    expect($settings.get()).toEqual(defaults)
+    expect(mockStorage.setItem).not.toHaveBeenCalled()
+  })
+
+  it('should throw if setKey is called before hydration completes', () => {
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+    })
+    expect(() => $settings.setKey('theme', 'dark')).toThrow(
+      /Cannot call .setKey\(\) before hydration complete/
+    )
+  })
+
+  it('should run migrations on the whole object', async () => {
+    mockStorage.state['settings:theme'] = JSON.stringify({
+      version: 1,
+      data: 'dark',
+    })
+    mockStorage.state['settings:fontSize'] = JSON.stringify({
+      version: 1,
+      data: 'large',
+    })
+
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+      schema: settingsSchema,
+      version: 2,
+      migrations: {
+        // v1 stored the font size as a name
+        2: (old: unknown) => {
+          const v1 = old as { theme: string; fontSize: string }
+          return { ...v1, fontSize: v1.fontSize === 'large' ? 18 : 14 }
+        },
+      },
+    })
+    await $settings.ready
+
+    expect($settings.get()).toEqual({ theme: 'dark', fontSize: 18 })
+    // Migrated fields are saved at the current version
+    expect(mockStorage.state['settings:fontSize']).toBe(
+      JSON.stringify({ version: 2, data: 18, fingerprint })
+    )
+  })
+
+  it('should only migrate the fields stored at an older version', async () => {
+    // A write-back that stopped after the first field
+    mockStorage.state['prices:a'] = JSON.stringify({ version: 2, data: 100 })
+    mockStorage.state['prices:b'] = JSON.stringify({ version: 1, data: 5 })
+    mockStorage.state['prices:c'] = JSON.stringify({ version: 1, data: 7 })
+
+    const $prices = persistentMap(
+      { a: 0, b: 0, c: 0, d: 0 },
+      {
+        key: 'prices',
+        storage: mockStorage,
+        version: 3,
+        migrations: {
+          // v1 stored euros, v2 stores cents
+          2: (old: unknown) => {
+            const v1 = old as Record<string, number>
+            return Object.fromEntries(
+              Object.entries(v1).map(([name, euros]) => [name, euros * 100])
+            )
+          },
+          3: (old: unknown) => ({ ...(old as object), c: 1 }),
+        },
+      }
+    )
+    await $prices.ready
+
+    expect($prices.get()).toEqual({ a: 100, b: 500, c: 1, d: 0 })
+    await $prices.flush()
+    expect(JSON.parse(mockStorage.state['prices:a'])).toEqual({
+      version: 3,
+      data: 100,
+    })
+  })
+
+  it('should not migrate fields that were never stored', async () => {
+    mockStorage.state['prices:a'] = JSON.stringify({ version: 1, data: 3 })
+
+    const $prices = persistentMap(
+      { a: 0, b: 200 },
+      {
+        key: 'prices',
+        storage: mockStorage,
+        version: 2,
+        migrations: { 2: toCents },
+      }
+    )
+    await $prices.ready
+    await $prices.flush()
+
+    expect($prices.get()).toEqual({ a: 300, b: 200 })
+    expect(JSON.parse(mockStorage.state['prices:a'])).toEqual({
+      version: 2,
+      data: 300,
+    })
+    expect(mockStorage.state['prices:b']).toBeUndefined()
+  })
+
+  it('should only migrate the field changed by an older writer', async () => {
+    const listeners = new Map<string, (value: string | undefined) => void>()
+    const storage = {
+      ...mockStorage,
+      subscribe: (key: string, callback: (value?: string) => void) => {
+        listeners.set(key, callback)
+        return () => listeners.delete(key)
+      },
+    }
+    const $prices = persistentMap(
+      { a: 0, b: 200 },
+      { key: 'prices', storage, version: 2, migrations: { 2: toCents } }
+    )
+    await $prices.ready
+
+    listeners.get('prices:a')!(JSON.stringify({ version: 1, data: 3 }))
+    await vi.waitFor(() => expect($prices.get()).toEqual({ a: 300, b: 200 }))
+    expect(storage.setItem).not.toHaveBeenCalled()
+  })
+
+  it('should reject adapters that keep a single value', () => {
+    expect(() =>
+      persistentMap(defaults, {
+        key: 'settings',
+        storage: { ...mockStorage, keys: undefined, filePath: '/data.json' },
+      })
+    ).toThrow('persistentMap needs an adapter that stores several keys')
+  })
+
+  it('should not overwrite fields written by a newer version', async () => {
+    mockStorage.state['settings:theme'] = JSON.stringify({
+      version: 2,
+      data: 'dark',
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+      schema: settingsSchema,
+    })
+    await $settings.ready
+    expect($settings.get()).toEqual({ theme: 'dark', fontSize: 14 })
+
+    $settings.setKey('fontSize', 16)
+    await $settings.flush()
+
+    expect(mockStorage.setItem).not.toHaveBeenCalled()
+    vi.mocked(console.warn).mockRestore()
+  })
+
+  it('should use the onCorruption handler and store every field', async () => {
+    mockStorage.state['settings:theme'] = JSON.stringify({
+      version: 1,
+      data: 'purple',
+    })
+
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+      schema: settingsSchema,
+      onCorruption: () => Promise.resolve(defaults),
+    })
+    await $settings.ready
+
+    expect($settings.get()).toEqual(defaults)
+    expect(mockStorage.state['settings:theme']).toBe(
+      JSON.stringify({ version: 1, data: 'light', fingerprint })
+    )
+    expect(mockStorage.state['settings:fontSize']).toBe(
+      JSON.stringify({ version: 1, data: 14, fingerprint })
+    )
+  })
+
+  it('should store a checksum of each field and check it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+      checksum: true,
+    })
+    await $settings.ready
+    $settings.setKey('fontSize', 16)
+    await $settings.flush()
+
+    const stored = JSON.parse(mockStorage.state['settings:fontSize']) as {
+      checksum: string
+    }
+    mockStorage.state['settings:fontSize'] = JSON.stringify({
+      ...stored,
+      data: 61,
+    })
+    const $reloaded = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+      onCorruption: () => Promise.resolve(defaults),
+    })
+    await $reloaded.ready
+
+    expect($reloaded.get()).toEqual(defaults)
+    vi.mocked(console.error).mockRestore()
+  })
+
+  it('should apply a field changed elsewhere without writing it back', async () => {
+    const listeners = new Map<string, (value: string | undefined) => void>()
+    const storage = {
+      ...mockStorage,
+      subscribe: (key: string, callback: (value?: string) => void) => {
+        listeners.set(key, callback)
+        return () => listeners.delete(key)
+      },
+    }
+    const $settings = persistentMap(defaults, { key: 'settings', storage })
+    await $settings.ready
+
+    listeners.get('settings:theme')!(
+      JSON.stringify({ version: 1, data: 'dark' })
+    )
+    await vi.waitFor(() =>
+      expect($settings.get()).toEqual({ theme: 'dark', fontSize: 14 })
+    )
+    expect(storage.setItem).not.toHaveBeenCalled()
+  })
+
+  it('should delete every field on reset', async () => {
+    mockStorage.state['settings:theme'] = JSON.stringify({
+      version: 1,
+      data: 'dark',
+    })
+    const $settings = persistentMap(defaults, {
+      key: 'settings',
+      storage: mockStorage,
+    })
+    await $settings.ready
+
+    await $settings.reset()
+
+    expect($settings.get()).toEqual(defaults)
+    expect(mockStorage.state).toEqual({})
+  })
+
+  describe('Debouncing', () => {
+    beforeEach(() => vi.useFakeTimers())
+    afterEach(() => vi.useRealTimers())
+
+    it('should write every changed field once per debounce window', async () => {
+      const $settings = persistentMap(defaults, {
+        key: 'settings',
+        storage: mockStorage,
+        debounceMs: 100,
+      })
+      await $settings.ready
+
+      $settings.setKey('fontSize', 15)
+      $settings.setKey('fontSize', 16)
+      $settings.setKey('theme', 'dark')
+      expect(mockStorage.setItem).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(100)
+      expect(mockStorage.setItem).toHaveBeenCalledTimes(2)
+      expect(mockStorage.state['settings:fontSize']).toBe(
+        JSON.stringify({ version: 1, data: 16 })
+      )
+    })
+
+    it('should report the persistence status', async () => {
+      const $settings = persistentMap(defaults, {
+        key: 'settings',
+        storage: mockStorage,
+        debounceMs: 100,
+      })
+      expect($settings.status.get().state).toBe('hydrating')
+      await $settings.ready
+
+      $settings.setKey('theme', 'dark')
+      expect($settings.status.get()).toMatchObject({
+        state: 'pending',
+        dirty: true,
+      })
+
+      await vi.advanceTimersByTimeAsync(100)
+      expect($settings.status.get()).toMatchObject({
+        state: 'idle',
+        dirty: false,
+        lastSavedAt: expect.any(Number) as number,
+      })
+    })
+  })
+})
@@ -0,0 +1,191 @@
+// @vitest-environment happy-dom
+/// <reference lib="dom" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { act, createElement, Suspense } from 'react'
+import type { ReactNode } from 'react'
+import { createRoot, hydrateRoot } from 'react-dom/client'
+import type { Root } from 'react-dom/client'
+import { renderToString } from 'react-dom/server'
+
+import { persistentAtom } from '../index'
+import type { PersistentAtom } from '../index'
+import {
+  PersistGate,
+  seedStores,
+  useAtom,
+  useHydratedAtom,
+  usePersistStatus,
+} from '../react'
+import { createMemoryAdapter } from '../testing'
+
+const envelope = (data: unknown) => JSON.stringify({ version: 1, data })
+
+// A storage whose reads wait until `load()` is called
+const createDelayedStorage = (state: Record<string, string>) => {
+  const memory = createMemoryAdapter(state)
+  let load!: () => void
+  const loaded = new Promise<void>((resolve) => {
+    load = resolve
+  })
+  const storage = {
+    ...memory,
+    getItem: async (key: string) => {
+      await loaded
+      return memory.getItem(key)
+    },
+  }
+  return { storage, load }
+}
+
+const Theme = ({ store }: { store: PersistentAtom<string> }) => {
+  const { value, isHydrated } = useAtom(store)
+  return `${value}:${isHydrated}`
+}
+
+const HydratedTheme = ({ store }: { store: PersistentAtom<string> }) =>
+  useHydratedAtom(store)
+
+const Status = ({ store }: { store: PersistentAtom<string> }) =>
+  usePersistStatus(store).state
+
+describe('React bindings', () => {
+  let container: HTMLElement
+  let root: Root | undefined
+
+  const render = (element: ReactNode) => {
+    act(() => {
+      root = createRoot(container)
+      root.render(element)
+    })
+  }
+
+  beforeEach(() => {
+    ;(
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true
+    container = document.createElement('div')
+  })
+
+  afterEach(() => {
+    act(() => root?.unmount())
+    root = undefined
+    vi.restoreAllMocks()
+  })
+
+  it('should render the stored value once hydrated with useAtom', async () => {
+    const { storage, load } = createDelayedStorage({ theme: envelope('dark') })
+    const $theme = persistentAtom('light', { key: 'theme', storage })
+
+    render(createElement(Theme, { store: $theme }))
+    expect(container.textContent).toBe('light:false')
+
+    await act(async () => {
+      load()
+      await $theme.ready
+    })
+    expect(container.textContent).toBe('dark:true')
+  })
+
+  it('should suspend until hydrated with useHydratedAtom', async () => {
+    const { storage, load } = createDelayedStorage({ theme: envelope('dark') })
+    const $theme = persistentAtom('light', { key: 'theme', storage })
+
+    render(
+      createElement(
+        Suspense,
+        { fallback: 'loading' },
+        createElement(HydratedTheme, { store: $theme })
+      )
+    )
+    expect(container.textContent).toBe('loading')
+
+    await act(async () => {
+      load()
+      await $theme.ready
+    })
+    expect(container.textContent).toBe('dark')
+  })
+
+  it('should render loading, then the children, with PersistGate', async () => {
+    const { storage, load } = createDelayedStorage({ theme: envelope('dark') })
+    const $theme = persistentAtom('light', { key: 'theme', storage })
+
+    render(
+      createElement(
+        PersistGate,
+        { stores: [$theme], loading: 'loading' },
+        createElement(Theme, { store: $theme })
+      )
+    )
+    expect(container.textContent).toBe('loading')
+
+    await act(async () => {
+      load()
+      await $theme.ready
+    })
+    expect(container.textContent).toBe('dark:true')
+  })
+
+  it('should render the error if a store fails to hydrate', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const storage = createMemoryAdapter({ theme: 'not json' })
+    const $theme = persistentAtom('light', { key: 'theme', storage })
+    await $theme.ready.catch(() => {})
+
+    render(
+      createElement(PersistGate, {
+        stores: [$theme],
+        error: (error: unknown) => `failed: ${(error as Error).message}`,
+      })
+    )
+    expect(container.textContent).toMatch(/^failed: Failed to parse/)
+  })
+
+  it('should keep seeded stores rendered while they hydrate on the client', async () => {
+    const server = createMemoryAdapter({ theme: envelope('dark') })
+    const $server = persistentAtom('light', { key: 'theme', storage: server })
+    await $server.ready
+    const app = (store: PersistentAtom<string>) =>
+      createElement(
+        PersistGate,
+        { stores: [store], loading: 'loading' },
+        createElement(
+          Suspense,
+          { fallback: 'suspended' },
+          createElement(HydratedTheme, { store })
+        )
+      )
+    container.innerHTML = renderToString(app($server))
+    expect(container.textContent).toBe('dark')
+
+    const { storage, load } = createDelayedStorage({
+      theme: envelope('stored'),
+    })
+    const $client = persistentAtom('light', { key: 'theme', storage })
+    seedStores({ theme: $client }, { theme: 'dark' })
+    act(() => {
+      root = hydrateRoot(container, app($client))
+    })
+    expect(container.textContent).toBe('dark')
+
+    await act(async () => {
+      load()
+      await $client.ready
+    })
+    expect(container.textContent).toBe('stored')
+  })
+
+  it('should report the persistence status', async () => {
+    const { storage, load } = createDelayedStorage({})
+    const $theme = persistentAtom('light', { key: 'theme', storage })
+    render(createElement(Status, { store: $theme }))
+    expect(container.textContent).toBe('hydrating')
+
+    await act(async () => {
+      load()
+      await $theme.ready
+    })
+    expect(container.textContent).toBe('idle')
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+import {
+  flushAll,
+  flushOnExit,
+  listAtoms,
+  persistentAtom,
+  persistentMap,
+  readyAll,
+} from '../index'
+import { createMemoryAdapter } from '../testing'
+
+const envelope = (data: unknown) => JSON.stringify({ version: 1, data })
+
+describe('registry', () => {
+  const stores: {
+    destroy: (options?: { flush?: boolean }) => Promise<void>
+  }[] = []
+  const track = <S extends (typeof stores)[number]>(store: S) => {
+    stores.push(store)
+    return store
+  }
+
+  afterEach(async () => {
+    await Promise.all(stores.splice(0).map((store) => store.destroy()))
+    vi.unstubAllGlobals()
+  })
+
+  it('should list created atoms and maps until they are destroyed', async () => {
+    const storage = createMemoryAdapter()
+    const $theme = track(
+      persistentAtom('light', { key: 'theme', storage, version: 2 })
+    )
+    const $settings = track(
+      persistentMap({ fontSize: 12 }, { key: 'settings', storage })
+    )
+    await readyAll()
+
+    expect(listAtoms()).toEqual([
+      { key: 'theme', storage: 'memory', version: 2, dirty: false },
+      { key: 'settings', storage: 'memory', version: 1, dirty: false },
+    ])
+
+    await $theme.destroy()
+    await $settings.destroy()
+    expect(listAtoms()).toEqual([])
+  })
+
+  it('should flush pending debounced writes', async () => {
+    const storage = createMemoryAdapter()
+    const $theme = track(
+      persistentAtom('light', { key: 'theme', storage, debounceMs: 10_000 })
+    )
+    const $settings = track(
+      persistentMap(
+        { fontSize: 12 },
+        { key: 'settings', storage, debounceMs: 10_000 }
+      )
+    )
+    await readyAll()
+
+    $theme.set('dark')
+    $settings.setKey('fontSize', 16)
+    expect(listAtoms().map(({ dirty }) => dirty)).toEqual([true, true])
+
+    await flushAll()
+    expect(storage.state).toEqual({
+      theme: envelope('dark'),
+      'settings:fontSize': envelope(16),
+    })
+    expect(listAtoms().map(({ dirty }) => dirty)).toEqual([false, false])
+  })
+
+  it('should not flush atoms that are still hydrating', async () => {
+    const storage = createMemoryAdapter({ theme: envelope('dark') })
+    const setItem = vi.spyOn(storage, 'setItem')
+    const $theme = track(persistentAtom('light', { key: 'theme', storage }))
+
+    await flushAll()
+    await $theme.ready
+    expect(setItem).not.toHaveBeenCalled()
+    expect($theme.get()).toBe('dark')
+  })
+
+  it('should flush when the page is hidden', async () => {
+    const listeners = new Map<string, () => void>()
+    const target = {
+      addEventListener: (type: string, listener: () => void) =>
+        listeners.set(type, listener),
+      removeEventListener: (type: string) => listeners.delete(type),
+    }
+    const document = { ...target, visibilityState: 'visible' }
+    vi.stubGlobal('addEventListener', target.addEventListener)
+    vi.stubGlobal('removeEventListener', target.removeEventListener)
+    vi.stubGlobal('document', document)
+
+    const storage = createMemoryAdapter()
+    const $theme = track(
+      persistentAtom('light', { key: 'theme', storage, debounceMs: 10_000 })
+    )
+    await $theme.ready
+    const remove = flushOnExit({ signals: [] })
+
+    $theme.set('dark')
+    document.visibilityState = 'hidden'
+    listeners.get('visibilitychange')?.()
+    await vi.waitFor(() => expect(storage.state.theme).toBe(envelope('dark')))
+
+    remove()
+    expect(listeners.size).toBe(0)
+  })
+
+  it('should remove its process handlers', () => {
+    const count = () =>
+      ['beforeExit', 'SIGINT', 'SIGTERM'].map((event) =>
+        process.listenerCount(event)
+      )
+    const before = count()
+
+    const remove = flushOnExit()
+    expect(count()).toEqual(before.map((n) => n + 1))
+    remove()
+    expect(count()).toEqual(before)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest'
+import { z } from 'zod'
+
+import { persistentAtom } from '../index'
+import { createSQLiteAdapter } from '../adapters/sqlite-adapter'
+import type { SQLiteDatabase } from '../adapters/sqlite-adapter'
+
+// node:sqlite is available without a flag from Node 22.13
+const [major, minor] = process.versions.node.split('.').map(Number)
+const hasNodeSqlite = major > 22 || (major === 22 && minor >= 13)
+
+describe.skipIf(!hasNodeSqlite)('createSQLiteAdapter', () => {
+  let openDatabase: () => SQLiteDatabase
+  let db: SQLiteDatabase
+
+  beforeAll(async () => {
+    const { DatabaseSync } = await import('node:sqlite')
+    openDatabase = () => new DatabaseSync(':memory:')
+  })
+
+  beforeEach(() => {
+    db = openDatabase()
+  })
+
+  it('should store, read and delete values', async () => {
+    const adapter = createSQLiteAdapter(db)
+
+    expect(await adapter.getItem('settings')).toBeUndefined()
+
+    await adapter.setItem('settings', '{"version":2,"data":"dark"}')
+    expect(await adapter.getItem('settings')).toBe(
+      '{"version":2,"data":"dark"}'
+    )
+
+    await adapter.removeItem!('settings')
+    expect(await adapter.getItem('settings')).toBeUndefined()
+  })
+
+  it('should store the version and update time of each key', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+    const adapter = createSQLiteAdapter(db, { table: 'state' })
+
+    await adapter.setItem('settings', '{"version":2,"data":"dark"}')
+    await adapter.setItem('raw', 'not json')
+
+    expect(
+      db
+        .prepare('SELECT key, version, updated_at FROM state ORDER BY key')
+        .all()
+    ).toEqual([
+      { key: 'raw', version: null, updated_at: 1_700_000_000_000 },
+      { key: 'settings', version: 2, updated_at: 1_700_000_000_000 },
+    ])
+    vi.mocked(Date.now).mockRestore()
+  })
+
+  it('should list the stored keys', async () => {
+    const adapter = createSQLiteAdapter(db)
+    await adapter.setItem('tasks', '[]')
+    await adapter.setItem('settings', '{}')
+
+    expect(await adapter.keys!()).toEqual(['settings', 'tasks'])
+  })
+
+  it('should commit writes made in the same tick in one transaction', async () => {
+    const exec = vi.spyOn(db, 'exec')
+    const adapter = createSQLiteAdapter(db)
+    exec.mockClear()
+
+    await Promise.all([
+      adapter.setItem('a', '1'),
+      adapter.setItem('b', '2'),
+      adapter.removeItem!('c'),
+    ])
+
+    expect(exec.mock.calls).toEqual([['BEGIN IMMEDIATE'], ['COMMIT']])
+    expect(await adapter.getItem('a')).toBe('1')
+    expect(await adapter.getItem('b')).toBe('2')
+  })
+
+  it('should roll back and reject every write of a failed batch', async () => {
+    const adapter = createSQLiteAdapter(db)
+    await adapter.setItem('a', 'old')
+    db.exec(
+      'CREATE TRIGGER fail BEFORE INSERT ON zod_persist ' +
+        "WHEN NEW.key = 'bad' BEGIN SELECT RAISE(ABORT, 'rejected'); END"
+    )
+
+    const results = await Promise.allSettled([
+      adapter.setItem('a', 'new'),
+      adapter.setItem('bad', 'value'),
+    ])
+
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'rejected',
+    ])
+    expect(await adapter.getItem('a')).toBe('old')
+  })
+
+  it('should reject invalid table names', () => {
+    expect(() => createSQLiteAdapter(db, { table: 'state; DROP' })).toThrow(
+      'invalid SQLite table name'
+    )
+  })
+
+  it('should persist an atom', async () => {
+    const $tasks = persistentAtom<string[]>([], {
+      key: 'tasks',
+      storage: createSQLiteAdapter(db),
+      schema: z.array(z.string()),
+    })
+    await $tasks.ready
+    await $tasks.setAndFlush(['Write tests'])
+
+    const $reloaded = persistentAtom<string[]>([], {
+      key: 'tasks',
+      storage: createSQLiteAdapter(db),
+    })
+    await $reloaded.ready
+    expect($reloaded.get()).toEqual(['Write tests'])
+  })
+})
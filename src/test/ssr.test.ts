@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import { persistentAtom, persistentMap } from '../index'
+import { dehydrateStores, getSeed, seedStores } from '../react/ssr'
+import { createMemoryAdapter } from '../testing'
+
+const envelope = (data: unknown) => JSON.stringify({ version: 1, data })
+
+describe('dehydrateStores and seedStores', () => {
+  it('should carry hydrated values from the server to the client', async () => {
+    const server = createMemoryAdapter({
+      theme: envelope('dark'),
+      'settings:fontSize': envelope(16),
+    })
+    const state = await dehydrateStores({
+      theme: persistentAtom('light', { key: 'theme', storage: server }),
+      settings: persistentMap(
+        { fontSize: 12 },
+        { key: 'settings', storage: server }
+      ),
+    })
+    expect(state).toEqual({ theme: 'dark', settings: { fontSize: 16 } })
+
+    const client = createMemoryAdapter()
+    const $theme = persistentAtom('light', { key: 'theme', storage: client })
+    const $settings = persistentMap(
+      { fontSize: 12 },
+      { key: 'settings', storage: client }
+    )
+    seedStores({ theme: $theme, settings: $settings }, state)
+
+    expect($theme.get()).toBe('dark')
+    expect($settings.get()).toEqual({ fontSize: 16 })
+    expect(getSeed($theme)).toEqual({ value: 'dark' })
+    await Promise.all([$theme.ready, $settings.ready])
+    expect(client.state).toEqual({})
+  })
+
+  it('should leave out stores that fail to hydrate', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const storage = createMemoryAdapter({ theme: 'not json' })
+    const state = await dehydrateStores({
+      theme: persistentAtom('light', { key: 'theme', storage }),
+    })
+    expect(state).toEqual({})
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'zod'
+import fs from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { persistentAtom, schemaFingerprint } from '../index'
+import {
+  checkSchemaLock,
+  createMemoryAdapter,
+  withChaos,
+  waitForHydration,
+  waitForWrites,
+} from '../testing'
+
+const envelope = (data: unknown) => JSON.stringify({ version: 1, data })
+
+describe('createMemoryAdapter', () => {
+  it('should expose and accept the stored state', async () => {
+    const storage = createMemoryAdapter({ theme: envelope('dark') })
+    const $theme = persistentAtom('light', { key: 'theme', storage })
+    await $theme.ready
+    expect($theme.get()).toBe('dark')
+
+    await $theme.setAndFlush('blue')
+    expect(storage.state).toEqual({ theme: envelope('blue') })
+  })
+
+  it('should simulate changes made elsewhere', async () => {
+    const storage = createMemoryAdapter()
+    const $theme = persistentAtom('light', { key: 'theme', storage })
+    await $theme.ready
+
+    storage.simulateExternalChange('theme', envelope('dark'))
+    await vi.waitFor(() => expect($theme.get()).toBe('dark'))
+  })
+})
+
+describe('withChaos', () => {
+  it('should fail the given calls', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const storage = withChaos(createMemoryAdapter(), { failOn: { setItem: 1 } })
+    const $count = persistentAtom(0, {
+      key: 'count',
+      storage,
+      retry: { retries: 1, delayMs: 1 },
+    })
+    await $count.ready
+
+    await $count.setAndFlush(1)
+    expect(storage.calls.setItem).toBe(2)
+  })
+
+  it('should corrupt reads so onCorruption runs', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const memory = createMemoryAdapter({ count: envelope(41) })
+    const $count = persistentAtom(0, {
+      key: 'count',
+      storage: withChaos(memory, { corruptReads: 1 }),
+      onCorruption: () => Promise.resolve(-1),
+    })
+
+    await $count.ready
+    expect($count.get()).toBe(-1)
+    // The corrupted value was backed up
+    const [backup] = await memory.listBackups('count')
+    expect(memory.state[backup.id]).toBe(envelope(41))
+  })
+
+  it('should tear writes', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const memory = createMemoryAdapter()
+    const schema = z.array(z.string())
+    const $tasks = persistentAtom<string[]>([], {
+      key: 'tasks',
+      storage: withChaos(memory, { tornWrites: 1 }),
+      schema,
+    })
+    await $tasks.ready
+
+    await expect($tasks.setAndFlush(['Write tests'])).rejects.toThrow(
+      'Injected setItem failure'
+    )
+    const stored = JSON.stringify({
+      version: 1,
+      data: ['Write tests'],
+      fingerprint: schemaFingerprint(schema),
+    })
+    expect(memory.state.tasks).toBe(stored.slice(0, stored.length / 2))
+
+    const $reloaded = persistentAtom<string[]>([], {
+      key: 'tasks',
+      storage: memory,
+    })
+    await expect($reloaded.ready).rejects.toThrow()
+  })
+})
+
+describe('waitForHydration and waitForWrites', () => {
+  it('should wait for slow hydration and writes', async () => {
+    const storage = withChaos(createMemoryAdapter(), { latencyMs: 20 })
+    const $count = persistentAtom(0, { key: 'count', storage, debounceMs: 10 })
+
+    expect((await waitForHydration($count)).state).toBe('idle')
+    $count.set(1)
+    $count.set(2)
+    await waitForWrites($count)
+
+    expect(storage.calls.setItem).toBe(1)
+    expect($count.status.get()).toMatchObject({ state: 'idle', dirty: false })
+  })
+
+  it('should resolve when hydration fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const storage = withChaos(createMemoryAdapter(), {
+      failOn: { getItem: 1 },
+    })
+    const $count = persistentAtom(0, { key: 'count', storage })
+    $count.ready.catch(() => {})
+
+    const status = await waitForHydration($count)
+    expect(status.state).toBe('error')
+    expect(status.error).toEqual(
+      new Error('Injected getItem failure for key "count"')
+    )
+  })
+})
+
+describe('checkSchemaLock', () => {
+  const v1 = z.object({ title: z.string() })
+  const v2 = z.object({ title: z.string(), done: z.boolean() })
+
+  const withLockFile = async (test: (lockFile: string) => Promise<void>) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zod-persist-lock-'))
+    try {
+      await test(path.join(dir, 'schema-lock.json'))
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  }
+  const readLock = async (lockFile: string) =>
+    JSON.parse(await fs.readFile(lockFile, 'utf8')) as unknown
+
+  it('should record new and bumped schemas', () =>
+    withLockFile(async (lockFile) => {
+      await checkSchemaLock({ tasks: { schema: v1 } }, lockFile, {
+        update: true,
+      })
+      expect(await readLock(lockFile)).toEqual({
+        tasks: { version: 1, fingerprint: schemaFingerprint(v1) },
+      })
+
+      await checkSchemaLock({ tasks: { schema: v2, version: 2 } }, lockFile, {
+        update: true,
+      })
+      expect(await readLock(lockFile)).toEqual({
+        tasks: { version: 2, fingerprint: schemaFingerprint(v2) },
+      })
+    }))
+
+  it('should fail when a schema changed without a version bump', () =>
+    withLockFile(async (lockFile) => {
+      await checkSchemaLock({ tasks: { schema: v1 } }, lockFile, {
+        update: true,
+      })
+
+      await expect(
+        checkSchemaLock({ tasks: { schema: v2 } }, lockFile)
+      ).rejects.toThrow(
+        'The schema of "tasks" changed but its version is still 1'
+      )
+      await expect(
+        checkSchemaLock({ tasks: { schema: v1, version: 0 } }, lockFile)
+      ).rejects.toThrow('lower than the locked version 1')
+    }))
+
+  it('should fail on an outdated lock file without updating it', () =>
+    withLockFile(async (lockFile) => {
+      await expect(
+        checkSchemaLock({ tasks: { schema: v1 } }, lockFile, { update: false })
+      ).rejects.toThrow(`Error: ${lockFile} is out of date for tasks`)
+      await expect(fs.access(lockFile)).rejects.toThrow()
+    }))
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+import { createWriteQueue } from '../write-queue'
+
+// A write that stays pending until it is resolved by the test
+const createControlledWrite = () => {
+  const calls: { value: number; resolve: () => void; reject: () => void }[] = []
+  const write = vi.fn(
+    (value: number) =>
+      new Promise<void>((resolve, reject) => {
+        calls.push({
+          value,
+          resolve,
+          reject: () => reject(new Error('write failed')),
+        })
+      })
+  )
+  return { write, calls }
+}
+
+describe('createWriteQueue', () => {
+  beforeEach(() => vi.useFakeTimers())
+  afterEach(() => vi.useRealTimers())
+
+  it('should start writing in the same tick', () => {
+    const { write } = createControlledWrite()
+    const queue = createWriteQueue(write)
+
+    void queue.push(1)
+
+    expect(write).toHaveBeenCalledWith(1)
+  })
+
+  it('should write one value at a time and coalesce superseded values', async () => {
+    const { write, calls } = createControlledWrite()
+    const queue = createWriteQueue(write)
+
+    const first = queue.push(1)
+    const second = queue.push(2)
+    const third = queue.push(3)
+    expect(write).toHaveBeenCalledTimes(1)
+
+    calls[0].resolve()
+    await first
+    await vi.advanceTimersByTimeAsync(0)
+
+    // 2 was replaced by 3 before it was written
+    expect(write.mock.calls).toEqual([[1], [3]])
+    calls[1].resolve()
+    await expect(Promise.all([second, third])).resolves.toBeDefined()
+  })
+
+  it('should retry failed writes with exponential backoff', async () => {
+    const write = vi
+      .fn<(value: number) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(undefined)
+    const onRetry = vi.fn()
+    const queue = createWriteQueue(write, { retries: 3, delayMs: 100, onRetry })
+
+    const done = queue.push(1)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(write).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(200)
+
+    await expect(done).resolves.toBeUndefined()
+    expect(write).toHaveBeenCalledTimes(3)
+    expect(onRetry).toHaveBeenNthCalledWith(1, expect.any(Error), 1, 100)
+    expect(onRetry).toHaveBeenNthCalledWith(2, expect.any(Error), 2, 200)
+    expect(queue.hasUnsaved).toBe(false)
+  })
+
+  it('should reject and keep the value unsaved when all retries fail', async () => {
+    const write = vi
+      .fn<(value: number) => Promise<void>>()
+      .mockRejectedValue(new Error('offline'))
+    const queue = createWriteQueue(write, { retries: 1, delayMs: () => 50 })
+
+    const done = queue.push(1)
+    const assertion = expect(done).rejects.toThrow('offline')
+    await vi.advanceTimersByTimeAsync(50)
+    await assertion
+
+    expect(write).toHaveBeenCalledTimes(2)
+    expect(queue.hasUnsaved).toBe(true)
+  })
+
+  it('should write a newer value instead of retrying a superseded one', async () => {
+    const write = vi
+      .fn<(value: number) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(undefined)
+    const queue = createWriteQueue(write, { retries: 3 })
+
+    const first = queue.push(1)
+    const second = queue.push(2)
+    await Promise.all([first, second])
+
+    expect(write.mock.calls).toEqual([[1], [2]])
+  })
+
+  it('should drop the waiting value on clear', async () => {
+    const { write, calls } = createControlledWrite()
+    const queue = createWriteQueue(write)
+
+    void queue.push(1)
+    const dropped = queue.push(2)
+    queue.clear()
+    await dropped
+
+    calls[0].resolve()
+    await queue.idle()
+    expect(write.mock.calls).toEqual([[1]])
+  })
+})
@@ -0,0 +1,92 @@
+import type { StorageAdapter } from '../persistent-atom'
+
+type Operation = 'getItem' | 'setItem' | 'removeItem'
+
+/** 1-based call numbers, counted per operation. */
+type Calls = number | number[]
+
+export type ChaosOptions = {
+  /** Delays every call by this many milliseconds, or by what the function returns. */
+  latencyMs?: number | ((operation: Operation, key: string) => number)
+  /** Calls that reject, e.g. `{ setItem: 2 }` fails the second write. */
+  failOn?: Partial<Record<Operation, Calls>>
+  /** `getItem` calls that return a corrupted (truncated) value. */
+  corruptReads?: Calls
+  /** `setItem` calls that store only the first half of the value and then reject. */
+  tornWrites?: Calls
+  /** The error injected failures reject with. */
+  error?: (operation: Operation, key: string) => Error
+}
+
+export type ChaosAdapter = StorageAdapter & {
+  /** How often each operation was called. */
+  readonly calls: Record<Operation, number>
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const includes = (calls: Calls | undefined, call: number) =>
+  Array.isArray(calls) ? calls.includes(call) : calls === call
+
+// Cuts a value in half, like a write interrupted by a crash
+const truncate = (value: string) => value.slice(0, Math.floor(value.length / 2))
+
+/**
+ * Wraps an adapter to inject latency, failures, corrupted reads and torn
+ * writes, e.g. to test migrations, retries and `onCorruption` handlers.
+ */
+export function withChaos(
+  storage: StorageAdapter,
+  {
+    latencyMs = 0,
+    failOn = {},
+    corruptReads,
+    tornWrites,
+    error = (operation, key) =>
+      new Error(`Injected ${operation} failure for key "${key}"`),
+  }: ChaosOptions = {}
+): ChaosAdapter {
+  const calls: Record<Operation, number> = {
+    getItem: 0,
+    setItem: 0,
+    removeItem: 0,
+  }
+
+  // Counts the call, waits for the latency and throws if it should fail
+  const begin = async (operation: Operation, key: string) => {
+    const call = ++calls[operation]
+    const delay =
+      typeof latencyMs === 'function' ? latencyMs(operation, key) : latencyMs
+    if (delay > 0) await sleep(delay)
+    if (includes(failOn[operation], call)) throw error(operation, key)
+    return call
+  }
+
+  return {
+    ...storage,
+    name: `chaos(${storage.name})`,
+    async getItem(key) {
+      const call = await begin('getItem', key)
+      const value = await storage.getItem(key)
+      return value != null && includes(corruptReads, call)
+        ? truncate(value)
+        : value
+    },
+    async setItem(key, value) {
+      const call = await begin('setItem', key)
+      if (includes(tornWrites, call)) {
+        await storage.setItem(key, truncate(value))
+        throw error('setItem', key)
+      }
+      await storage.setItem(key, value)
+    },
+    removeItem: storage.removeItem
+      ? async (key) => {
+          await begin('removeItem', key)
+          await storage.removeItem!(key)
+        }
+      : undefined,
+    calls,
+  }
+}
@@ -0,0 +1,10 @@
+export { createMemoryAdapter } from './memory-adapter'
+export type { MemoryAdapter } from './memory-adapter'
+
+export { withChaos } from './chaos-adapter'
+export type { ChaosAdapter, ChaosOptions } from './chaos-adapter'
+
+export { waitForHydration, waitForWrites } from './wait'
+
+export { checkSchemaLock } from './schema-lock'
+export type { SchemaLock, SchemaLockOptions } from './schema-lock'
@@ -0,0 +1,61 @@
+import type { StorageAdapter } from '../persistent-atom'
+import { withBackups } from '../backups'
+import type { BackupStorageAdapter } from '../backups'
+
+export type MemoryAdapter = BackupStorageAdapter & {
+  /** The stored values by key. Tests can read and change it directly. */
+  state: Record<string, string>
+  /** Stores `value` (or deletes the key) and notifies subscribers, as if another process wrote it. */
+  simulateExternalChange: (key: string, value: string | undefined) => void
+}
+
+/**
+ * Creates an in-memory storage adapter for tests. Its `state` can be
+ * inspected and seeded, and `simulateExternalChange` triggers the same path
+ * as a change made in another tab or process.
+ */
+export function createMemoryAdapter(
+  initialState: Record<string, string> = {},
+  adapterName: string = 'memory'
+): MemoryAdapter {
+  const state: Record<string, string> = { ...initialState }
+  const listeners = new Map<string, Set<(value: string | undefined) => void>>()
+
+  const adapter: StorageAdapter = {
+    name: adapterName,
+    getItem: (key) =>
+      Promise.resolve(
+        Object.prototype.hasOwnProperty.call(state, key)
+          ? state[key]
+          : undefined
+      ),
+    setItem(key, value) {
+      state[key] = value
+      return Promise.resolve()
+    },
+    removeItem(key) {
+      delete state[key]
+      return Promise.resolve()
+    },
+    keys: () => Promise.resolve(Object.keys(state)),
+    subscribe(key, callback) {
+      const keyListeners = listeners.get(key) ?? new Set()
+      keyListeners.add(callback)
+      listeners.set(key, keyListeners)
+      return () => {
+        keyListeners.delete(callback)
+        if (keyListeners.size === 0) listeners.delete(key)
+      }
+    },
+  }
+
+  return {
+    ...withBackups(adapter),
+    state,
+    simulateExternalChange(key, value) {
+      if (value === undefined) delete state[key]
+      else state[key] = value
+      listeners.get(key)?.forEach((listener) => listener(value))
+    },
+  }
+}
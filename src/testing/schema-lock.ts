@@ -0,0 +1,86 @@
+import fs from 'fs/promises'
+import type { AtomDefinition } from '../cli/store'
+import { schemaFingerprint } from '../fingerprint'
+
+/** The versions and fingerprints recorded in a lock file, by definition name. */
+export type SchemaLock = Record<
+  string,
+  { version: number; fingerprint: string }
+>
+
+export type SchemaLockOptions = {
+  /**
+   * Write new and bumped entries to the lock file. Defaults to true, except
+   * when the `CI` environment variable is set: there, a lock file that isn't
+   * up to date fails the check.
+   */
+  update?: boolean
+}
+
+async function readLock(lockFile: string): Promise<SchemaLock> {
+  try {
+    return JSON.parse(await fs.readFile(lockFile, 'utf8')) as SchemaLock
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw error
+  }
+}
+
+/**
+ * Compares the schemas of the given definitions against a lock file checked
+ * into the repository, and throws when a schema changed but its version
+ * didn't, or when a version went down. Call it from a test:
+ *
+ * ```ts
+ * import * as definitions from '../src/stores'
+ *
+ * it('bumps the version when a schema changes', () =>
+ *   checkSchemaLock(definitions, 'schema-lock.json'))
+ * ```
+ */
+export async function checkSchemaLock(
+  definitions: Record<string, AtomDefinition>,
+  lockFile: string,
+  { update = !process.env.CI }: SchemaLockOptions = {}
+): Promise<void> {
+  const lock = await readLock(lockFile)
+  const next: SchemaLock = { ...lock }
+  const problems: string[] = []
+  const outdated: string[] = []
+
+  for (const [name, { schema, version = 1 }] of Object.entries(definitions)) {
+    const fingerprint = schema && schemaFingerprint(schema)
+    if (!fingerprint) continue
+    const locked = lock[name]
+
+    if (locked && version < locked.version) {
+      problems.push(
+        `"${name}" has version ${version}, lower than the locked version ${locked.version}`
+      )
+    } else if (
+      locked &&
+      version === locked.version &&
+      fingerprint !== locked.fingerprint
+    ) {
+      problems.push(
+        `The schema of "${name}" changed but its version is still ${version}. Bump \`version\` and add a migration.`
+      )
+    } else if (!locked || version !== locked.version) {
+      outdated.push(name)
+      next[name] = { version, fingerprint }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Error: schema lock check failed:\n  ${problems.join('\n  ')}`
+    )
+  }
+  if (outdated.length === 0) return
+  if (!update) {
+    throw new Error(
+      `Error: ${lockFile} is out of date for ${outdated.join(', ')}. Run the check locally and commit the lock file.`
+    )
+  }
+  await fs.writeFile(lockFile, `${JSON.stringify(next, null, 2)}\n`)
+}
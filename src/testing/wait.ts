@@ -0,0 +1,39 @@
+import type { ReadableAtom } from 'nanostores'
+import type { PersistState, PersistStatus } from '../status'
+
+type StoreWithStatus = { status: ReadableAtom<PersistStatus> }
+
+// Resolves with the status once it reaches one of `states`
+function waitForState(
+  store: StoreWithStatus,
+  states: PersistState[]
+): Promise<PersistStatus> {
+  return new Promise((resolve) => {
+    const check = (status: PersistStatus) => {
+      if (!states.includes(status.state)) return false
+      resolve(status)
+      return true
+    }
+    if (check(store.status.get())) return
+    const unbind = store.status.listen((status) => {
+      if (check(status)) unbind()
+    })
+  })
+}
+
+/**
+ * Resolves once hydration has finished, also when it failed. Check the
+ * returned status (or `store.ready`) to see which.
+ */
+export function waitForHydration(store: StoreWithStatus) {
+  return waitForState(store, ['idle', 'pending', 'saving', 'error'])
+}
+
+/**
+ * Resolves once no write is pending or in progress, including debounced
+ * writes and retries. With fake timers, advance them to let debounced
+ * writes start.
+ */
+export function waitForWrites(store: StoreWithStatus) {
+  return waitForState(store, ['idle', 'error'])
+}
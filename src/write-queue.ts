@@ -0,0 +1,146 @@
+export type RetryOptions = {
+  /** How many times a failed write is retried before giving up. Defaults to 0. */
+  retries?: number
+  /**
+   * Delay before the first retry, doubled for every further retry, or a
+   * function of the retry number (starting at 1). Defaults to 100.
+   */
+  delayMs?: number | ((retry: number) => number)
+  /** Upper bound for the delay between retries. Defaults to 30000. */
+  maxDelayMs?: number
+}
+
+export type WriteQueueOptions = RetryOptions & {
+  /** Called before a failed write is retried. */
+  onRetry?: (error: unknown, retry: number, delayMs: number) => void
+}
+
+export type WriteQueue<T> = {
+  /**
+   * Queues `value`, replacing a value that is still waiting. Resolves once
+   * `value` or a newer value is written, and rejects if that write fails
+   * after all retries.
+   */
+  push: (value: T) => Promise<void>
+  /**
+   * Drops the value waiting to be written and forgets a failed write.
+   * A write in progress still completes.
+   */
+  clear: () => void
+  /** Resolves once no write is in progress. */
+  idle: () => Promise<void>
+  /** True when the last write failed and no newer value has been written since. */
+  readonly hasUnsaved: boolean
+}
+
+type Waiter = {
+  generation: number
+  resolve: () => void
+  reject: (error: unknown) => void
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Serializes writes: one write runs at a time, in order, and values pushed
+ * while a write is running replace each other, so only the newest is written
+ * next. Failed writes are retried with exponential backoff.
+ */
+export function createWriteQueue<T>(
+  write: (value: T) => Promise<void>,
+  {
+    retries = 0,
+    delayMs = 100,
+    maxDelayMs = 30_000,
+    onRetry,
+  }: WriteQueueOptions = {}
+): WriteQueue<T> {
+  // Every pushed value gets a generation, so callers can be settled once
+  // their value or a newer one is written
+  let generation = 0
+  let next: { value: T; generation: number } | undefined
+  let inFlight = 0
+  let running: Promise<void> | undefined
+  let hasUnsaved = false
+  let waiters: Waiter[] = []
+
+  const retryDelay = (retry: number) =>
+    Math.min(
+      typeof delayMs === 'function'
+        ? delayMs(retry)
+        : delayMs * 2 ** (retry - 1),
+      maxDelayMs
+    )
+
+  const settle = (
+    matches: (waiter: Waiter) => boolean,
+    settleWaiter: (waiter: Waiter) => void
+  ) => {
+    const settled = waiters.filter(matches)
+    waiters = waiters.filter((waiter) => !matches(waiter))
+    settled.forEach(settleWaiter)
+  }
+
+  const drain = async () => {
+    while (next) {
+      const { value, generation: current } = next
+      next = undefined
+      inFlight = current
+
+      for (let retry = 1; ; retry++) {
+        try {
+          await write(value)
+          hasUnsaved = false
+          settle(
+            (waiter) => waiter.generation <= current,
+            (waiter) => waiter.resolve()
+          )
+          break
+        } catch (error) {
+          // A newer value supersedes this one, its callers wait for that write
+          if (next) break
+          if (retry > retries) {
+            hasUnsaved = true
+            settle(
+              (waiter) => waiter.generation <= current,
+              (waiter) => waiter.reject(error)
+            )
+            break
+          }
+          const delay = retryDelay(retry)
+          onRetry?.(error, retry, delay)
+          await sleep(delay)
+          if (next) break
+        }
+      }
+    }
+    running = undefined
+  }
+
+  return {
+    push(value) {
+      generation++
+      next = { value, generation }
+      const done = new Promise<void>((resolve, reject) => {
+        waiters.push({ generation, resolve, reject })
+      })
+      // Starts writing in the same tick when the queue is idle
+      running ??= drain()
+      return done
+    },
+    clear() {
+      hasUnsaved = false
+      if (!next) return
+      next = undefined
+      settle(
+        (waiter) => waiter.generation > inFlight,
+        (waiter) => waiter.resolve()
+      )
+    },
+    idle: () => Promise.resolve(running),
+    get hasUnsaved() {
+      return hasUnsaved
+    },
+  }
+}